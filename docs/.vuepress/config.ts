@@ -49,6 +49,18 @@ export default defineUserConfig({
             text: "Packets",
             link: "/api/packets",
           },
+          {
+            text: "Signer",
+            link: "/api/signer",
+          },
+          {
+            text: "EventStore",
+            link: "/api/store",
+          },
+          {
+            text: "Verifier",
+            link: "/api/verifier",
+          },
         ],
       },
       {
@@ -78,6 +90,9 @@ export default defineUserConfig({
             "/api/rx-req.md",
             "/api/operators.md",
             "/api/packets.md",
+            "/api/signer.md",
+            "/api/store.md",
+            "/api/verifier.md",
           ],
         },
       ],
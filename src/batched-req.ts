@@ -0,0 +1,137 @@
+import {
+  filter,
+  merge,
+  Observable,
+  share,
+  Subscriber,
+  Subscription,
+} from "rxjs";
+
+import type { RxNostr } from "./index.js";
+import { chunkFilters, isFiltered, mergeFilters } from "./nostr/filter.js";
+import { Nostr } from "./nostr/primitive.js";
+import type { MergeFilter } from "./operator.js";
+import type { EventPacket } from "./packet.js";
+import { createRxOneshotReq } from "./req.js";
+import { defineDefaultOptions } from "./util.js";
+
+export interface RxBatchedReqOptions {
+  /** The time in milliseconds to collect `emit()` calls into a batch. */
+  bufferTime: number;
+  /** How to merge filters of each `emit()`. `mergeFilters()` is used by default. */
+  merger: MergeFilter;
+  /**
+   * How to split the merged filters into REQs.
+   * `chunkFilters()` with its default limits is used by default.
+   */
+  chunker: (filters: Nostr.Filter[]) => Nostr.Filter[][];
+  /**
+   * The relays to which REQs are sent.
+   * If omitted, readable relays at the time of sending are used.
+   */
+  relays?: string[];
+}
+const makeRxBatchedReqOptions = defineDefaultOptions({
+  bufferTime: 100,
+  merger: mergeFilters as MergeFilter,
+  chunker: ((filters) =>
+    chunkFilters(filters)) as RxBatchedReqOptions["chunker"],
+  relays: undefined as string[] | undefined,
+});
+
+/**
+ * Issues many small requests as a few shared REQs.
+ */
+export interface RxBatchedReq {
+  /**
+   * Request events matching the filters.
+   * The request joins a batch when the returned Observable is subscribed,
+   * and the batch is sent as oneshot REQs after `bufferTime`.
+   * The Observable issues only events matching the filters,
+   * and completes when all REQs of the batch complete.
+   */
+  emit(filters: Nostr.Filter[]): Observable<EventPacket>;
+  /** Cancel requests waiting for the batch to be sent. */
+  dispose(): void;
+}
+
+/**
+ * Create an RxBatchedReq, which collects requests issued within `bufferTime`,
+ * merges their filters and routes the received events to each request.
+ * It's useful when many components ask for the same kind of events separately,
+ * e.g. profiles of each author in a timeline.
+ */
+export function createRxBatchedReq(
+  rxNostr: RxNostr,
+  options?: Partial<RxBatchedReqOptions>
+): RxBatchedReq {
+  return new RxBatchedReqImpl(rxNostr, makeRxBatchedReqOptions(options));
+}
+
+interface BatchedRequest {
+  filters: Nostr.Filter[];
+  subscriber: Subscriber<EventPacket>;
+  subscription: Subscription | null;
+}
+
+class RxBatchedReqImpl implements RxBatchedReq {
+  private pending: BatchedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private rxNostr: RxNostr, private options: RxBatchedReqOptions) {}
+
+  emit(filters: Nostr.Filter[]): Observable<EventPacket> {
+    return new Observable((subscriber) => {
+      const request: BatchedRequest = {
+        filters,
+        subscriber,
+        subscription: null,
+      };
+      this.pending.push(request);
+      this.timer ??= setTimeout(() => {
+        this.flush();
+      }, this.options.bufferTime);
+
+      return () => {
+        this.pending = this.pending.filter((e) => e !== request);
+        request.subscription?.unsubscribe();
+      };
+    });
+  }
+
+  dispose(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const { subscriber } of this.pending) {
+      subscriber.complete();
+    }
+    this.pending = [];
+  }
+
+  private flush() {
+    const requests = this.pending;
+    this.pending = [];
+    this.timer = null;
+    if (requests.length <= 0) {
+      return;
+    }
+
+    const { merger, chunker, relays } = this.options;
+    const merged = requests
+      .map(({ filters }) => filters)
+      .reduce((acc, filters) => merger(acc, filters));
+    const batch$ = merge(
+      ...chunker(merged).map((filters) =>
+        this.rxNostr.use(createRxOneshotReq({ filters }), { relays })
+      )
+    ).pipe(share());
+
+    for (const request of requests) {
+      request.subscription = batch$
+        .pipe(filter(({ event }) => isFiltered(event, request.filters)))
+        .subscribe(request.subscriber);
+    }
+  }
+}
@@ -1,11 +1,15 @@
 import normalizeUrl from "normalize-url";
 import {
-  catchError,
+  concat,
+  concatMap,
+  defer,
   EMPTY,
   filter,
   finalize,
   first,
+  from,
   identity,
+  lastValueFrom,
   map,
   merge,
   mergeAll,
@@ -15,35 +19,82 @@ import {
   of,
   OperatorFunction,
   ReplaySubject,
-  retry,
   Subject,
   Subscription,
   take,
   takeUntil,
   tap,
+  timeout,
+  toArray,
   Unsubscribable,
 } from "rxjs";
 
-import { createEventByNip07, createEventBySecretKey } from "./nostr/event.js";
+import { mineEvent } from "./nostr/event.js";
+import { isFiltered } from "./nostr/filter.js";
 import type { Nip07 } from "./nostr/nip07.js";
+import {
+  fetchRelayInfo,
+  type RelayInfo,
+  type RelayLimitation,
+} from "./nostr/nip11.js";
+import type { PowOptions } from "./nostr/nip13.js";
+import { Negentropy, type NegentropyItem } from "./nostr/nip77.js";
 import { Nostr } from "./nostr/primitive.js";
-import { completeOnTimeout } from "./operator.js";
+import { completeOnTimeout, filterKind, verify } from "./operator.js";
+import { OutboxOptions, OutboxRouter } from "./outbox.js";
 import type {
   ConnectionState,
   ConnectionStatePacket,
+  CountPacket,
   ErrorPacket,
   EventPacket,
   MessagePacket,
+  NoticePacket,
   OkPacket,
+  OkPacketPrefix,
 } from "./packet.js";
-import type { RxReq } from "./req.js";
+import { createRxOneshotReq, type RxReq } from "./req.js";
+import { type EventSigner, nip07Signer, seckeySigner } from "./signer.js";
+import type { EventStore } from "./store.js";
 import { defineDefaultOptions, onSubscribe, unnull } from "./util.js";
-import { WebsocketSubject } from "./websocket.js";
+import type { EventVerifier } from "./verifier.js";
+import {
+  type BackoffConfig,
+  type WebSocketConstructor,
+  WebsocketSubject,
+} from "./websocket.js";
 
+export * from "./batched-req.js";
+export * from "./nostr/filter.js";
+export * from "./nostr/nip04.js";
+export { getCoordinate, isDeletedBy } from "./nostr/nip09.js";
+export type { RelayInfo, RelayLimitation } from "./nostr/nip11.js";
+export * from "./nostr/nip13.js";
+export * from "./nostr/nip44.js";
+export * from "./nostr/nip77.js";
 export * from "./nostr/primitive.js";
+export {
+  InvalidMessageError,
+  type InvalidMessageReason,
+  validateIncomingMessage,
+} from "./nostr/validation.js";
 export * from "./operator.js";
+export {
+  type OutboxOptions,
+  parseRelayList,
+  type RelayList,
+} from "./outbox.js";
 export * from "./packet.js";
+export * from "./paginate.js";
 export * from "./req.js";
+export * from "./signer.js";
+export * from "./store.js";
+export * from "./verifier.js";
+export type {
+  BackoffConfig,
+  WebSocketConstructor,
+  WebSocketLike,
+} from "./websocket.js";
 
 /**
  * The core object of rx-nostr, which holds a connection to relays
@@ -75,16 +126,29 @@ export interface RxNostr {
   getAllRelayState(): Record<string, ConnectionState>;
   getRelayState(url: string): ConnectionState;
   reconnect(url: string): void;
+  /**
+   * Fetch the relay information document (NIP-11) of the relay.
+   * The result is cached while the relay is used by this object,
+   * and its `limitation` is respected when REQs are sent to the relay.
+   * The request fails after `timeout` milliseconds.
+   */
+  fetchRelayInfo(url: string): Promise<RelayInfo>;
+  /**
+   * Get the relay information document already fetched for the relay,
+   * or null if it's not available. It never fetches.
+   */
+  getRelayInfo(url: string): RelayInfo | null;
 
   /**
    * Associate RxReq with RxNostr.
    * When the associated RxReq is manipulated,
-   * the RxNostr issues a new REQ to all relays allowed to be read.
+   * the RxNostr issues a new REQ to all relays allowed to be read,
+   * or only to `options.relays` if it is given.
    * The method returns an Observable that issues EventPackets
    * when an EVENT is received that is subscribed by RxReq.
    * You can unsubscribe the Observable to CLOSE.
    */
-  use(rxReq: RxReq): Observable<EventPacket>;
+  use(rxReq: RxReq, options?: Partial<UseOptions>): Observable<EventPacket>;
   /**
    * Create an Observable that receives all events (EVENT) from all websocket connections.
    *
@@ -106,15 +170,62 @@ export interface RxNostr {
    * Nothing happens when this Observable is unsubscribed.
    * */
   createAllMessageObservable(): Observable<MessagePacket>;
+  /**
+   * Create an Observable that receives all NOTICE messages from all websocket connections.
+   *
+   * Nothing happens when this Observable is unsubscribed.
+   * */
+  createAllNoticeObservable(): Observable<NoticePacket>;
   createConnectionStateObservable(): Observable<ConnectionStatePacket>;
 
   /**
-   * Attempts to send events to all relays that are allowed to write.
-   * The `seckey` param accepts both nsec format and hex format,
-   * and if omitted NIP-07 will be automatically used.
+   * Attempts to send events to all relays that are allowed to write,
+   * or only to `options.relays` if it is given.
+   * The event is signed by `options.signer`,
+   * and if omitted the default `signer` of this object will be used.
+   *
+   * The returned Observable issues an OkPacket per relay
+   * when the relay responds OK for the event or `okTimeout` has elapsed,
+   * and completes when all relays have been settled.
    */
+  send(
+    params: Nostr.EventParameters,
+    options?: Partial<SendOptions>
+  ): Observable<OkPacket>;
+  /** @deprecated use `options.signer` with `seckeySigner()` instead */
   send(params: Nostr.EventParameters, seckey?: string): Observable<OkPacket>;
 
+  /**
+   * Ask all readable relays, or only `options.relays` if it is given,
+   * for the number of events matching the filters (NIP-45).
+   *
+   * The returned Observable issues a CountPacket per relay
+   * and completes when all relays have responded COUNT or CLOSED,
+   * or `timeout` has elapsed. Relays which don't respond in time issue nothing.
+   */
+  count(
+    filters: Nostr.Filter[],
+    options?: Partial<CountOptions>
+  ): Observable<CountPacket>;
+
+  /**
+   * Reconcile the local events with the relay's ones matching the filter
+   * by negentropy (NIP-77), without downloading the events.
+   * The relay doesn't have to be in the default relay set.
+   *
+   * The returned Promise is resolved with ids only the local has (`have`)
+   * and ids only the relay has (`need`).
+   * If `options.fetchEvents` is true, the events of `need` are also fetched.
+   * It is rejected when the relay responds NEG-ERR
+   * or doesn't respond to a negentropy message in `timeout` milliseconds.
+   */
+  sync(
+    filter: Nostr.Filter,
+    items: NegentropyItem[],
+    relay: string,
+    options?: Partial<SyncOptions>
+  ): Promise<SyncResult>;
+
   /**
    * Releases all resources held by the RxNostr object.
    * Any Observable resulting from this RxNostr will be in the completed state
@@ -131,20 +242,216 @@ export function createRxNostr(options?: Partial<RxNostrOptions>): RxNostr {
 }
 
 export interface RxNostrOptions {
-  /** Number of attempts to reconnect when websocket is disconnected. */
-  retry: number;
+  /**
+   * How to reconnect when websocket is disconnected unexpectedly.
+   * Active REQs are sent again after the connection is recovered.
+   * A number is regarded as the maximum count of retries with the default exponential backoff.
+   */
+  retry: BackoffConfig | number;
   /**
    * The time in milliseconds to timeout when following the backward strategy.
    * The observable is terminated when the specified amount of time has elapsed
    * during which no new events are available.
+   * It's also how long to wait for each response to `count()` and `sync()`.
    */
   timeout: number;
+  /**
+   * The time in milliseconds to wait for OK from each relay after sending an EVENT.
+   * If a relay doesn't respond in time, `send()` emits an OkPacket marked as `timeout`.
+   */
+  okTimeout: number;
+  /**
+   * How to keep connections to relays.
+   *
+   * - `"eager"`: Connect to all readable relays as soon as they are set
+   *   and keep the connections open.
+   * - `"lazy"`: Connect to a relay only while it has active REQs, EVENTs waiting for OK, COUNTs or syncs,
+   *   and disconnect it after `idleTimeout` has elapsed since it became idle.
+   *
+   * In either case, REQs are issued again when a connection is recovered
+   * (forward REQs with `since` updated to the time the connection was lost).
+   */
+  connectionStrategy: "eager" | "lazy";
+  /**
+   * The time in milliseconds to keep an idle connection open
+   * when following the lazy connection strategy.
+   */
+  idleTimeout: number;
+  /**
+   * If specified, rx-nostr responds to AUTH challenges (NIP-42) from relays.
+   * REQs and EVENTs that relays rejected with `auth-required:` prefix
+   * are sent again after the authentication succeeds.
+   */
+  authenticator?: Authenticator;
+  /**
+   * The signer used to sign events by default.
+   * If omitted, NIP-07 will be automatically used.
+   */
+  signer: EventSigner;
+  /**
+   * If specified, all events received from relays are stored in it after verification.
+   * Backward and oneshot REQs issue the stored events first,
+   * and then ask relays only for events newer than them.
+   * Errors of the store are reported to `createAllErrorObservable()`,
+   * with an empty `from` for those of `query()`.
+   */
+  eventStore?: EventStore;
+  /**
+   * If true, events that don't match the filters of the active REQ
+   * are dropped from Observables returned by `use()`.
+   * It protects applications from relays which return unrequested events.
+   */
+  enforceFilters: boolean;
+  /**
+   * If specified, rx-nostr follows the outbox model (NIP-65).
+   * REQs with `authors` are sent to the write relays of each author,
+   * and events are also sent to the read relays of `p`-tagged users.
+   * Relay lists are fetched from the readable relays and cached.
+   */
+  outbox?: OutboxOptions;
+  /**
+   * The maximum number of concurrent subscriptions per relay.
+   * Extra REQs wait in a queue until EOSE or CLOSED frees a slot.
+   * Forward REQs are sent prior to queued backward and oneshot REQs.
+   * If omitted, it's unlimited unless the relay's `max_subscriptions` (NIP-11) is known.
+   */
+  maxConcurrentReqs?: number;
+  /**
+   * If true, the relay information document (NIP-11) of each relay
+   * is fetched before sending REQs to the relay,
+   * so that its `limitation` is respected from the first REQ.
+   * If the fetch fails or doesn't finish within `timeout`, REQs are sent without it.
+   */
+  fetchRelayInfo: boolean;
+  /**
+   * The fetch function used to fetch relay information documents.
+   * If omitted, the global `fetch` is used.
+   */
+  fetcher?: typeof fetch;
+  /**
+   * If specified, events issued by `use()` are verified by it
+   * and ones with an invalid signature are dropped.
+   * It's also used to verify events for `eventStore` and `outbox`.
+   * RxNostr doesn't dispose it, so dispose it by yourself if necessary.
+   */
+  verifier?: EventVerifier;
+  /**
+   * If true, every message from relays is validated strictly:
+   * the arity and types of elements, hex format of ids and signatures,
+   * and whether event ids match the hash of events.
+   * Invalid messages are dropped and reported to `createAllErrorObservable()`
+   * as InvalidMessageError, just as frames which are not JSON arrays
+   * starting with a string always are.
+   */
+  strict: boolean;
+  /**
+   * If specified, a relay which sends this number of invalid messages in a connection
+   * is regarded as misbehaving and disconnected, and its state becomes `"error"`.
+   * Use `reconnect()` to connect to it again.
+   * Each invalid message is reported to `createAllErrorObservable()` regardless of this option.
+   */
+  maxInvalidMessages?: number;
+  /**
+   * The WebSocket constructor used for all connections.
+   * It is useful for environments without the global `WebSocket` like Node.js,
+   * or for testing. If omitted, the global `WebSocket` is used.
+   */
+  websocketCtor?: WebSocketConstructor;
 }
 const defaultRxNostrOptions = defineDefaultOptions({
-  retry: 10,
+  retry: {
+    strategy: "exponential",
+    initialDelay: 1000,
+    maxDelay: 60 * 1000,
+    maxCount: 10,
+    jitter: 1000,
+  } as BackoffConfig | number,
   timeout: 10000,
+  okTimeout: 10000,
+  connectionStrategy: "eager" as "eager" | "lazy",
+  idleTimeout: 10000,
+  authenticator: undefined as Authenticator | undefined,
+  signer: nip07Signer() as EventSigner,
+  eventStore: undefined as EventStore | undefined,
+  enforceFilters: false,
+  outbox: undefined as OutboxOptions | undefined,
+  maxConcurrentReqs: undefined as number | undefined,
+  fetchRelayInfo: false,
+  fetcher: undefined as typeof fetch | undefined,
+  verifier: undefined as EventVerifier | undefined,
+  strict: false,
+  maxInvalidMessages: undefined as number | undefined,
+  websocketCtor: undefined as WebSocketConstructor | undefined,
 });
 
+export interface Authenticator {
+  /**
+   * The signer used to sign AUTH events.
+   * If omitted, the default `signer` of RxNostr will be used.
+   */
+  signer?: EventSigner;
+}
+
+export interface SendOptions {
+  /**
+   * The signer used to sign the event.
+   * If omitted, the default `signer` of RxNostr will be used.
+   */
+  signer: EventSigner;
+  /**
+   * The relays to which the event is sent instead of the writable ones.
+   * Relays not in the default relay set are connected on demand.
+   */
+  relays?: string[];
+  /**
+   * If specified, the content is encrypted for the recipient with the signer
+   * before signing. Note that `p` tag for the recipient is not added automatically.
+   */
+  encryption?: SendEncryption;
+  /**
+   * If specified, a `nonce` tag (NIP-13) is mined before signing.
+   * The encrypted content is the target of mining if `encryption` is also specified.
+   */
+  pow?: PowOptions;
+}
+
+export interface SendEncryption {
+  /** The recipient's pubkey. */
+  pubkey: string;
+  scheme: "nip04" | "nip44";
+}
+
+export interface UseOptions {
+  /**
+   * The relays to which REQs are sent instead of the readable ones.
+   * Relays not in the default relay set are connected on demand
+   * and released when the Observable is unsubscribed.
+   */
+  relays?: string[];
+}
+
+export interface CountOptions {
+  /**
+   * The relays to which COUNT is sent instead of the readable ones.
+   * Relays not in the default relay set are connected on demand.
+   */
+  relays?: string[];
+}
+
+export interface SyncOptions {
+  /** If true, events which only the relay has are fetched after reconciliation. */
+  fetchEvents: boolean;
+}
+
+export interface SyncResult {
+  /** Ids of events which only the local has. */
+  have: string[];
+  /** Ids of events which only the relay has. */
+  need: string[];
+  /** Events of `need`. It's empty unless `fetchEvents` option is true. */
+  events: EventPacket[];
+}
+
 export interface Relay {
   url: string;
   read: boolean;
@@ -155,6 +462,13 @@ class RxNostrImpl implements RxNostr {
   private options: RxNostrOptions;
   private relays: Map<string, RelayState> = new Map();
   private activeReqs: Map<string, Nostr.OutgoingMessage.REQ> = new Map();
+  /** SubIds of active forward REQs which are sent only to specified relays. */
+  private scopedSubIds: Set<string> = new Set();
+  /** Relays out of the default relay set, which are used by `use()` or `send()` with `relays` option. */
+  private temporaryRelays: Map<string, TemporaryRelay> = new Map();
+  private outbox: OutboxRouter | null = null;
+  /** Used to construct subIds of COUNT and NEG-OPEN. */
+  private oneOffSubIdCount = 0;
   private message$: Subject<MessagePacket> = new Subject();
   private error$: Subject<ErrorPacket> = new Subject();
   private status$: Subject<ConnectionStatePacket> = new Subject();
@@ -164,6 +478,39 @@ class RxNostrImpl implements RxNostr {
     this.options = {
       ...opt,
     };
+
+    if (this.options.authenticator) {
+      this.message$.subscribe((packet) => {
+        this.handleAuthMessage(packet);
+      });
+    }
+    this.message$.subscribe((packet) => {
+      this.handleClosedMessage(packet);
+    });
+
+    const outbox = this.options.outbox;
+    if (outbox) {
+      const router = new OutboxRouter(outbox, (pubkeys) =>
+        this.fetchRelayLists(pubkeys)
+      );
+      this.outbox = router;
+      this.createAllEventObservable()
+        .pipe(filterKind(Nostr.Kind.RelayList), verify(this.options.verifier))
+        .subscribe(({ event }) => {
+          router.put(event);
+        });
+    }
+
+    const eventStore = this.options.eventStore;
+    if (eventStore) {
+      this.createAllEventObservable()
+        .pipe(verify(this.options.verifier))
+        .subscribe((packet) => {
+          eventStore.put(packet).catch((reason: unknown) => {
+            this.error$.next({ from: packet.from, reason });
+          });
+        });
+    }
   }
 
   getRelays(): Relay[] {
@@ -175,28 +522,40 @@ class RxNostrImpl implements RxNostr {
   }
 
   private createWebsocket(url: string): WebsocketSubject {
-    const websocket = new WebsocketSubject(url);
+    const websocket = new WebsocketSubject(url, {
+      retry: this.options.retry,
+      websocketCtor: this.options.websocketCtor,
+      strict: this.options.strict,
+      maxInvalidMessages: this.options.maxInvalidMessages,
+    });
 
     websocket.getConnectionStateObservable().subscribe((state) => {
       this.status$.next({
         from: url,
         state,
       });
+      if (state === "ongoing") {
+        this.restoreReqs(url);
+      }
+      if (state === "error") {
+        this.error$.next({ from: url, reason: new Error("websocket error") });
+      }
+    });
+    websocket.getDisconnectionObservable().subscribe(() => {
+      this.handleDisconnection(url);
+    });
+    websocket.getErrorObservable().subscribe((reason) => {
+      this.error$.next({ from: url, reason });
     });
 
-    websocket
-      .getMessageObservable()
-      .pipe(
-        retry(this.options.retry),
-        catchError((reason: unknown) => {
-          this.relays.get(url)?.activeSubIds.clear();
-          this.error$.next({ from: url, reason });
-          return EMPTY;
-        })
-      )
-      .subscribe((v) => {
-        this.message$.next(v);
-      });
+    // Invalid messages are reported by the error Observable,
+    // so the message stream keeps alive along with subscriptions.
+    websocket.getMessageObservable().subscribe((v) => {
+      const packet = this.restoreChunkedMessage(v);
+      if (packet) {
+        this.message$.next(packet);
+      }
+    });
 
     return websocket;
   }
@@ -209,8 +568,16 @@ class RxNostrImpl implements RxNostr {
   setRelays(
     relays: (string | Relay)[] | Awaited<ReturnType<Nip07["getRelays"]>>
   ): void {
-    const createWebsocket = this.createWebsocket.bind(this);
-    const nextRelays = getNextRelayState(this.relays, relays);
+    const createRelayState = this.createRelayState.bind(this);
+    // Temporary relays joining the default relay set take over their connection.
+    const prevRelays = new Map([
+      ...Array.from(this.temporaryRelays, ([url, { relay }]) => [url, relay]),
+      ...this.relays,
+    ] as [string, RelayState][]);
+    const nextRelays = getNextRelayState(prevRelays, relays);
+    for (const url of nextRelays.keys()) {
+      this.temporaryRelays.delete(url);
+    }
 
     const prevReadableUrls = this.getReadableUrls();
     const nextReadableUrls = this.getReadableUrls(
@@ -223,16 +590,24 @@ class RxNostrImpl implements RxNostr {
     }
 
     const urlsToBeRead = subtract(nextReadableUrls, prevReadableUrls);
-    for (const url of urlsToBeRead) {
-      nextRelays.get(url)?.websocket.start();
+    if (this.options.connectionStrategy === "eager") {
+      for (const url of urlsToBeRead) {
+        nextRelays.get(url)?.websocket.start();
+      }
     }
     for (const req of this.activeReqs.values()) {
+      if (this.scopedSubIds.has(req[1])) {
+        continue;
+      }
       this.ensureReq(req, {
         relays: urlsToBeRead.map((url) => unnull(nextRelays.get(url))),
       });
     }
 
     for (const req of this.activeReqs.values()) {
+      if (this.scopedSubIds.has(req[1])) {
+        continue;
+      }
       this.ensureReq(req, {
         relays: urlsToBeRead.map((url) => unnull(nextRelays.get(url))),
       });
@@ -258,17 +633,12 @@ class RxNostrImpl implements RxNostr {
       for (const relay of Array.isArray(relays)
         ? relays.map(normalizeRelay)
         : Object.entries(relays).map(([url, flags]) => ({ url, ...flags }))) {
-        const url = relay.url;
-        const prevState = prev.get(url);
-
-        const websocket = prevState?.websocket ?? createWebsocket(url);
-        const activeSubIds = prevState?.activeSubIds ?? new Set();
+        const prevState = prev.get(relay.url);
 
-        next.set(relay.url, {
-          ...relay,
-          websocket,
-          activeSubIds,
-        });
+        next.set(
+          relay.url,
+          prevState ? { ...prevState, ...relay } : createRelayState(relay)
+        );
       }
 
       return next;
@@ -282,9 +652,7 @@ class RxNostrImpl implements RxNostr {
               write: true,
             }
           : urlOrRelay;
-      relay.url = normalizeUrl(relay.url, {
-        normalizeProtocol: false,
-      });
+      relay.url = normalizeRelayUrl(relay.url);
 
       return relay;
     }
@@ -325,25 +693,137 @@ class RxNostrImpl implements RxNostr {
   reconnect(url: string): void {
     this.relays.get(url)?.websocket.start();
   }
+  getRelayInfo(url: string): RelayInfo | null {
+    return this.getRelay(normalizeRelayUrl(url))?.info.value ?? null;
+  }
+  fetchRelayInfo(url: string): Promise<RelayInfo> {
+    const normalized = normalizeRelayUrl(url);
+    const relay = this.getRelay(normalized);
+    if (!relay) {
+      return fetchRelayInfo(
+        normalized,
+        this.options.fetcher,
+        this.options.timeout
+      );
+    }
+    if (relay.info.promise) {
+      return relay.info.promise;
+    }
+
+    const promise = fetchRelayInfo(
+      normalized,
+      this.options.fetcher,
+      this.options.timeout
+    );
+    relay.info.promise = promise;
+    promise
+      .then(
+        (info) => {
+          relay.info.value = info;
+        },
+        () => {
+          // Allow to retry.
+          relay.info.promise = null;
+        }
+      )
+      .finally(() => {
+        relay.info.settled = true;
+        this.flushReqQueue(relay);
+      });
+
+    return promise;
+  }
 
-  use(rxReq: RxReq): Observable<EventPacket> {
+  use(rxReq: RxReq, options?: Partial<UseOptions>): Observable<EventPacket> {
     const TIMEOUT = this.options.timeout;
+    const authenticator = this.options.authenticator;
+    const eventStore = this.options.eventStore;
+    const enforceFilters = this.options.enforceFilters;
+    const verifier = this.options.verifier;
     const strategy = rxReq.strategy;
     const rxReqId = rxReq.rxReqId;
     const message$ = this.message$;
+    const scope = options?.relays?.map(normalizeRelayUrl);
+    const outbox = scope ? null : this.outbox;
 
     const getAllRelayState = this.getAllRelayState.bind(this);
+    const getReadableUrls = this.getReadableUrls.bind(this);
+    const getRelay = this.getRelay.bind(this);
     const createConnectionStateObservable =
       this.createConnectionStateObservable.bind(this);
     const ensureReq = this.ensureReq.bind(this);
     const finalizeReq = this.finalizeReq.bind(this);
+    const reportStoreError = (reason: unknown) => {
+      this.error$.next({ from: "", reason });
+    };
 
     const recordActiveReq = (req: Nostr.OutgoingMessage.REQ) => {
       const subId = req[1];
       this.activeReqs.set(subId, req);
+      if (scope || outbox) {
+        this.scopedSubIds.add(subId);
+      }
     };
     const forgetActiveReq = (subId: string) => {
       this.activeReqs.delete(subId);
+      this.scopedSubIds.delete(subId);
+    };
+    const getScopedRelays = (): RelayState[] | undefined =>
+      scope
+        ?.map((url) => this.getRelay(url))
+        .filter((relay): relay is RelayState => !!relay);
+    const getTargetRelayState = (
+      subId: string
+    ): Record<string, ConnectionState> => {
+      const routed = routes.get(subId);
+      const urls = routed ? Array.from(routed.keys()) : scope;
+      return urls
+        ? Object.fromEntries(
+            urls.map((url) => [
+              url,
+              getRelay(url)?.websocket.getState() ?? "terminated",
+            ])
+          )
+        : getAllRelayState();
+    };
+    // Temporary relays used by this `use()`, which are released on finalization.
+    const heldUrls = new Set<string>();
+    const holdTemporaryRelay = (url: string) => {
+      if (!heldUrls.has(url)) {
+        heldUrls.add(url);
+        this.holdTemporaryRelay(url);
+      }
+    };
+    const manageTemporaryRelays =
+      (): MonoTypeOperatorFunction<EventPacket> => (source) =>
+        defer(() => {
+          for (const url of scope ?? []) {
+            holdTemporaryRelay(url);
+          }
+          return source.pipe(
+            finalize(() => {
+              for (const url of heldUrls) {
+                this.releaseTemporaryRelay(url);
+              }
+              heldUrls.clear();
+            })
+          );
+        });
+    // REQs for each relay, which are split by the outbox router.
+    const routes = new Map<string, Map<string, Nostr.OutgoingMessage.REQ>>();
+    const isRequested = (from: string, subId: string, event: Nostr.Event) => {
+      const req =
+        this.getRelay(from)?.activeSubIds.get(subId) ??
+        this.activeReqs.get(subId);
+      if (!req) {
+        return false;
+      }
+      const [, , ...filters] = req;
+      return isFiltered(event, filters);
+    };
+    const cachedPackets = new Map<string, EventPacket[]>();
+    const notifyRxReq = (packet: EventPacket) => {
+      rxReq.handleEvent?.(packet);
     };
 
     const subId$ = rxReq.getReqObservable().pipe(
@@ -351,6 +831,10 @@ class RxNostrImpl implements RxNostr {
       strategy === "oneshot" ? first() : identity,
       attachSubId(),
       strategy === "forward" ? manageActiveForwardReq() : identity,
+      strategy !== "forward" && eventStore
+        ? loadCachedPackets(eventStore)
+        : identity,
+      outbox ? routeByOutbox(outbox) : identity,
       ensureReqOnNext(),
       map(([, subId]) => subId)
     );
@@ -365,6 +849,8 @@ class RxNostrImpl implements RxNostr {
       resource.push(subject);
 
       return subject.pipe(
+        verifier ? verify(verifier) : identity,
+        tap(notifyRxReq),
         onSubscribe(() => {
           resource.push(subId$.subscribe());
           resource.push(
@@ -378,10 +864,28 @@ class RxNostrImpl implements RxNostr {
             r.unsubscribe();
           }
           finalizeReq({ subId });
-        })
+        }),
+        manageTemporaryRelays()
       );
     } else {
-      return subId$.pipe(map(createEoseManagedEventObservable), mergeAll());
+      return subId$.pipe(
+        map((subId) => {
+          const cached = cachedPackets.get(subId) ?? [];
+          cachedPackets.delete(subId);
+          // `since` is inclusive, so relays may send the cached events again.
+          const cachedIds = new Set(cached.map(({ event }) => event.id));
+          return concat(
+            from(cached),
+            createEoseManagedEventObservable(subId).pipe(
+              filter(({ event }) => !cachedIds.has(event.id))
+            )
+          );
+        }),
+        mergeAll(),
+        verifier ? verify(verifier) : identity,
+        tap(notifyRxReq),
+        manageTemporaryRelays()
+      );
     }
 
     function attachSubId(): OperatorFunction<
@@ -412,9 +916,79 @@ class RxNostrImpl implements RxNostr {
         },
       });
     }
+    function loadCachedPackets(
+      store: EventStore
+    ): MonoTypeOperatorFunction<Nostr.OutgoingMessage.REQ> {
+      return concatMap(async (req): Promise<Nostr.OutgoingMessage.REQ> => {
+        const [, subId, ...filters] = req;
+        const packets = await store
+          .query(filters)
+          .catch((reason: unknown): EventPacket[] => {
+            reportStoreError(reason);
+            return [];
+          });
+        cachedPackets.set(
+          subId,
+          packets.map((packet) => ({ ...packet, subId }))
+        );
+
+        // Ask relays only for events newer than the cached ones.
+        return [
+          "REQ",
+          subId,
+          ...filters.map((filter) => {
+            const latest = packets.find(({ event }) =>
+              isFiltered(event, filter)
+            );
+            return latest
+              ? {
+                  ...filter,
+                  since: Math.max(filter.since ?? 0, latest.event.created_at),
+                }
+              : filter;
+          }),
+        ];
+      });
+    }
+    function routeByOutbox(
+      router: OutboxRouter
+    ): MonoTypeOperatorFunction<Nostr.OutgoingMessage.REQ> {
+      return concatMap(async (req): Promise<Nostr.OutgoingMessage.REQ> => {
+        const [, subId, ...filters] = req;
+        const routed = await router.route(filters, getReadableUrls());
+
+        // Relays no longer routed to must stop the previous REQ.
+        for (const url of routes.get(subId)?.keys() ?? []) {
+          if (!routed.has(url)) {
+            finalizeReq({ subId, url });
+          }
+        }
+        routes.set(
+          subId,
+          new Map(
+            Array.from(routed, ([url, filters]) => [
+              url,
+              ["REQ", subId, ...filters],
+            ])
+          )
+        );
+
+        return req;
+      });
+    }
     function ensureReqOnNext(): MonoTypeOperatorFunction<Nostr.OutgoingMessage.REQ> {
       return tap((req: Nostr.OutgoingMessage.REQ) => {
-        ensureReq(req, { overwrite: strategy === "forward" });
+        const overwrite = strategy === "forward";
+        const routed = routes.get(req[1]);
+        if (!routed) {
+          ensureReq(req, { relays: getScopedRelays(), overwrite });
+          return;
+        }
+
+        for (const [url, routedReq] of routed) {
+          holdTemporaryRelay(url);
+          ensureReq(routedReq, { relays: [unnull(getRelay(url))], overwrite });
+        }
       });
     }
     function createEoseManagedEventObservable(
@@ -427,7 +1001,7 @@ class RxNostrImpl implements RxNostr {
         eose$,
         createConnectionStateObservable()
       ).subscribe(() => {
-        const status = getAllRelayState();
+        const status = getTargetRelayState(subId);
         const shouldComplete = Object.entries(status).every(
           ([url, state]) =>
             state === "error" ||
@@ -445,7 +1019,11 @@ class RxNostrImpl implements RxNostr {
         filterBySubId(subId),
         filter((e) => !eoseRelays.has(e.from)),
         tap((e) => {
-          if (e.message[0] === "EOSE") {
+          if (
+            e.message[0] === "EOSE" ||
+            (e.message[0] === "CLOSED" &&
+              !willBeSentAgain(e.message, authenticator))
+          ) {
             eoseRelays.add(e.from);
             finalizeReq({ subId, url: e.from });
             eose$.next();
@@ -454,6 +1032,7 @@ class RxNostrImpl implements RxNostr {
         pickEvents(),
         finalize(() => {
           finalizeReq({ subId });
+          routes.delete(subId);
           complete$.unsubscribe();
           eose$.unsubscribe();
           manageCompletion.unsubscribe();
@@ -465,13 +1044,16 @@ class RxNostrImpl implements RxNostr {
     ): MonoTypeOperatorFunction<MessagePacket> {
       return filter(
         (packet) =>
-          (packet.message[0] === "EVENT" || packet.message[0] === "EOSE") &&
+          (packet.message[0] === "EVENT" ||
+            packet.message[0] === "EOSE" ||
+            packet.message[0] === "CLOSED") &&
           packet.message[1] === subId
       );
     }
     function pickEvents(): OperatorFunction<MessagePacket, EventPacket> {
       return mergeMap(({ from, message }) =>
-        message[0] === "EVENT"
+        message[0] === "EVENT" &&
+        (!enforceFilters || isRequested(from, message[1], message[2]))
           ? of({ from, subId: message[1], event: message[2] })
           : EMPTY
       );
@@ -494,43 +1076,84 @@ class RxNostrImpl implements RxNostr {
   createAllMessageObservable(): Observable<MessagePacket> {
     return this.message$.asObservable();
   }
+  createAllNoticeObservable(): Observable<NoticePacket> {
+    return this.message$
+      .asObservable()
+      .pipe(
+        mergeMap(({ from, message }) =>
+          message[0] === "NOTICE" ? of({ from, notice: message[1] }) : EMPTY
+        )
+      );
+  }
   createConnectionStateObservable(): Observable<ConnectionStatePacket> {
     return this.status$.asObservable();
   }
 
   send(
     params: Nostr.EventParameters,
-    seckey?: string | undefined
+    options?: Partial<SendOptions> | string
   ): Observable<OkPacket> {
-    const urls = this.getWritableUrls();
-    const subject = new ReplaySubject<OkPacket>(urls.length);
+    const { signer, relays, encryption, pow } =
+      typeof options === "string"
+        ? {
+            signer: seckeySigner(options),
+            relays: undefined,
+            encryption: undefined,
+            pow: undefined,
+          }
+        : {
+            ...options,
+            signer: options?.signer ?? this.options.signer,
+          };
+    const subject = new ReplaySubject<OkPacket>();
     let subscription: Subscription | null = null;
 
-    (seckey
-      ? Promise.resolve(createEventBySecretKey(params, seckey))
-      : createEventByNip07(params)
-    ).then((event) => {
-      if (!subject.closed) {
-        subscription = this.createAllMessageObservable().subscribe(
-          ({ from, message }) => {
-            if (message[0] !== "OK") {
-              return;
-            }
-            subject.next({
-              from,
-              id: event.id,
-            });
+    Promise.all([
+      encryptContent(params, signer, encryption)
+        .then((params) => minePowIfRequired(params, signer, pow))
+        .then((params) => signer.signEvent(params)),
+      this.getUrlsToSend(params, relays),
+    ]).then(
+      ([event, urls]) => {
+        if (subject.closed) {
+          return;
+        }
+
+        for (const url of urls) {
+          this.holdTemporaryRelay(url);
+        }
+        const releaseTemporaryRelays = () => {
+          for (const url of urls) {
+            this.releaseTemporaryRelay(url);
           }
-        );
-      }
+        };
 
-      for (const url of urls) {
-        this.relays.get(url)?.websocket.send(["EVENT", event]);
+        subscription = merge(
+          ...urls.map((url) => this.createOkObservable(url, event))
+        )
+          .pipe(finalize(releaseTemporaryRelays))
+          .subscribe(subject);
+
+        for (const url of urls) {
+          const relay = this.getRelay(url);
+          if (!relay) {
+            continue;
+          }
+          if (
+            this.options.connectionStrategy === "lazy" ||
+            this.temporaryRelays.has(url)
+          ) {
+            this.connect(relay);
+          }
+          relay.websocket.send(["EVENT", event]);
+        }
+      },
+      (err) => {
+        subject.error(err);
       }
-    });
+    );
 
     return subject.pipe(
-      take(urls.length),
       finalize(() => {
         subject.complete();
         subject.unsubscribe();
@@ -539,12 +1162,325 @@ class RxNostrImpl implements RxNostr {
     );
   }
 
+  /**
+   * Decide relays to send the event.
+   * Under the outbox model, read relays of `p`-tagged users are also used.
+   */
+  private async getUrlsToSend(
+    params: Nostr.EventParameters,
+    relays: string[] | undefined
+  ): Promise<string[]> {
+    if (relays) {
+      return Array.from(new Set(relays.map(normalizeRelayUrl)));
+    }
+
+    const urls = this.getWritableUrls();
+    if (!this.outbox) {
+      return urls;
+    }
+
+    const mentioned = (params.tags ?? [])
+      .filter(([name, pubkey]) => name === "p" && !!pubkey)
+      .map(([, pubkey]) => pubkey);
+
+    return Array.from(
+      new Set([...urls, ...(await this.outbox.getInboxUrls(mentioned))])
+    );
+  }
+
+  /** Fetch kind 10002 events of the users from the readable relays. */
+  private async fetchRelayLists(pubkeys: string[]): Promise<Nostr.Event[]> {
+    const urls = this.getReadableUrls();
+    if (urls.length <= 0) {
+      return [];
+    }
+
+    const rxReq = createRxOneshotReq({
+      filters: [{ kinds: [Nostr.Kind.RelayList], authors: pubkeys }],
+    });
+    const packets = await lastValueFrom(
+      this.use(rxReq, { relays: urls }).pipe(
+        verify(this.options.verifier),
+        toArray()
+      )
+    );
+
+    return packets.map(({ event }) => event);
+  }
+
+  count(
+    filters: Nostr.Filter[],
+    options?: Partial<CountOptions>
+  ): Observable<CountPacket> {
+    const urls = options?.relays
+      ? Array.from(new Set(options.relays.map(normalizeRelayUrl)))
+      : this.getReadableUrls();
+    const subId = `count:${this.oneOffSubIdCount++}`;
+
+    return merge(
+      ...urls.map((url) => this.createCountObservable(url, subId, filters))
+    );
+  }
+
+  private createCountObservable(
+    url: string,
+    subId: string,
+    filters: Nostr.Filter[]
+  ): Observable<CountPacket> {
+    return defer(() => {
+      this.holdTemporaryRelay(url);
+      const relay = unnull(this.getRelay(url));
+
+      return this.message$.pipe(
+        onSubscribe(() => {
+          relay.connection.pendingCounts++;
+          // Unlike EVENT, COUNT can't be sent by a one-off socket.
+          this.connect(relay);
+          relay.websocket.send(["COUNT", subId, ...filters]);
+        }),
+        mergeMap(({ from, message }) =>
+          from === url &&
+          (message[0] === "COUNT" || message[0] === "CLOSED") &&
+          message[1] === subId
+            ? of(message)
+            : EMPTY
+        ),
+        take(1),
+        mergeMap((message) =>
+          message[0] === "COUNT"
+            ? of({
+                from: url,
+                subId,
+                count: message[2].count,
+                approximate: message[2].approximate,
+              })
+            : EMPTY
+        ),
+        timeout({ first: this.options.timeout, with: () => EMPTY }),
+        finalize(() => {
+          relay.connection.pendingCounts--;
+          this.disconnectIfIdle(relay);
+          this.releaseTemporaryRelay(url);
+        })
+      );
+    });
+  }
+
+  async sync(
+    filter: Nostr.Filter,
+    items: NegentropyItem[],
+    url: string,
+    options?: Partial<SyncOptions>
+  ): Promise<SyncResult> {
+    const normalized = normalizeRelayUrl(url);
+
+    this.holdTemporaryRelay(normalized);
+    const relay = unnull(this.getRelay(normalized));
+    relay.connection.pendingSyncs++;
+
+    try {
+      const { have, need } = await this.reconcile(relay, filter, items);
+      if (!options?.fetchEvents || need.length <= 0) {
+        return { have, need, events: [] };
+      }
+
+      const rxReq = createRxOneshotReq({ filters: [{ ids: need }] });
+      const events = await lastValueFrom(
+        this.use(rxReq, { relays: [normalized] }).pipe(toArray())
+      );
+      return { have, need, events };
+    } finally {
+      relay.connection.pendingSyncs--;
+      this.disconnectIfIdle(relay);
+      this.releaseTemporaryRelay(normalized);
+    }
+  }
+
+  private reconcile(
+    relay: RelayState,
+    filter: Nostr.Filter,
+    items: NegentropyItem[]
+  ): Promise<Omit<SyncResult, "events">> {
+    const subId = `neg:${this.oneOffSubIdCount++}`;
+    const negentropy = new Negentropy(items);
+    const have: string[] = [];
+    const need: string[] = [];
+
+    const settled$ = this.message$.pipe(
+      onSubscribe(() => {
+        this.connect(relay);
+        relay.websocket.send([
+          "NEG-OPEN",
+          subId,
+          filter,
+          negentropy.initiate(),
+        ]);
+      }),
+      mergeMap(({ from, message }) =>
+        from === relay.url &&
+        (message[0] === "NEG-MSG" || message[0] === "NEG-ERR") &&
+        message[1] === subId
+          ? of(message)
+          : EMPTY
+      ),
+      timeout(this.options.timeout),
+      map((message) => {
+        if (message[0] === "NEG-ERR") {
+          throw new Error(`NEG-ERR: ${message[2]}`);
+        }
+
+        const reply = negentropy.reconcile(message[2]);
+        have.push(...reply.have);
+        need.push(...reply.need);
+        if (reply.output !== null) {
+          relay.websocket.send(["NEG-MSG", subId, reply.output]);
+        }
+
+        return reply.output === null;
+      }),
+      first((settled) => settled),
+      finalize(() => {
+        relay.websocket.send(["NEG-CLOSE", subId]);
+      })
+    );
+
+    return lastValueFrom(settled$).then(() => ({ have, need }));
+  }
+
+  private createOkObservable(
+    url: string,
+    event: Nostr.Event
+  ): Observable<OkPacket> {
+    const relay = this.getRelay(url);
+
+    return this.message$.pipe(
+      onSubscribe(() => {
+        if (relay) {
+          relay.connection.pendingOks++;
+        }
+      }),
+      mergeMap(({ from, message }) =>
+        from === url && message[0] === "OK" && message[1] === event.id
+          ? of(message)
+          : EMPTY
+      ),
+      filter((message) => {
+        if (this.options.authenticator && isAuthRequired(message)) {
+          // The event will be sent again after AUTH.
+          this.getRelay(url)?.auth.pending.push(["EVENT", event]);
+          return false;
+        }
+        return true;
+      }),
+      take(1),
+      map(([, id, ok, notice]) => ({
+        from: url,
+        id,
+        ok,
+        notice,
+        prefix: parseOkPrefix(notice),
+      })),
+      timeout({
+        first: this.options.okTimeout,
+        with: () => of({ from: url, id: event.id, ok: false, timeout: true }),
+      }),
+      finalize(() => {
+        if (relay) {
+          relay.connection.pendingOks--;
+          this.disconnectIfIdle(relay);
+        }
+      })
+    );
+  }
+
   dispose(): void {
     this.message$.complete();
     this.error$.complete();
-    for (const relay of this.relays.values()) {
+    for (const relay of this.getAllRelays()) {
+      clearIdleTimer(relay);
       relay.websocket.dispose();
     }
+    this.temporaryRelays.clear();
+  }
+
+  private createRelayState(relay: Relay): RelayState {
+    const state: RelayState = {
+      ...relay,
+      websocket: this.createWebsocket(relay.url),
+      activeSubIds: new Map(),
+      queuedReqs: [],
+      chunkedReqs: new Map(),
+      auth: { eventId: null, pending: [], authenticated: false },
+      connection: {
+        pendingOks: 0,
+        pendingCounts: 0,
+        pendingSyncs: 0,
+        disconnectedAt: null,
+        idleTimer: null,
+      },
+      info: {
+        value: null,
+        promise: null,
+        settled: !this.options.fetchRelayInfo,
+      },
+    };
+
+    if (this.options.fetchRelayInfo) {
+      // `fetchRelayInfo()` looks up the state, so wait for it to be registered.
+      queueMicrotask(() => {
+        this.fetchRelayInfo(relay.url).catch((reason: unknown) => {
+          this.error$.next({ from: relay.url, reason });
+        });
+      });
+    }
+
+    return state;
+  }
+
+  /** Find the relay from both the default relay set and temporary relays. */
+  private getRelay(url: string): RelayState | undefined {
+    return this.relays.get(url) ?? this.temporaryRelays.get(url)?.relay;
+  }
+
+  private getAllRelays(): RelayState[] {
+    return [
+      ...this.relays.values(),
+      ...Array.from(this.temporaryRelays.values(), ({ relay }) => relay),
+    ];
+  }
+
+  /**
+   * Make the relay available even if it's not in the default relay set.
+   * Each call must be paired with `releaseTemporaryRelay()`.
+   */
+  private holdTemporaryRelay(url: string) {
+    if (this.relays.has(url)) {
+      return;
+    }
+
+    const temporary = this.temporaryRelays.get(url);
+    if (temporary) {
+      temporary.refCount++;
+    } else {
+      this.temporaryRelays.set(url, {
+        relay: this.createRelayState({ url, read: true, write: true }),
+        refCount: 1,
+      });
+    }
+  }
+
+  private releaseTemporaryRelay(url: string) {
+    const temporary = this.temporaryRelays.get(url);
+    if (!temporary) {
+      return;
+    }
+
+    temporary.refCount--;
+    if (temporary.refCount <= 0) {
+      this.temporaryRelays.delete(url);
+      clearIdleTimer(temporary.relay);
+      temporary.relay.websocket.dispose();
+    }
   }
 
   private ensureReq(
@@ -553,16 +1489,177 @@ class RxNostrImpl implements RxNostr {
   ) {
     const subId = req[1];
 
+    // Relays given explicitly are used regardless of `read`.
     for (const relay of options?.relays ?? this.relays.values()) {
       if (
-        !relay.read ||
-        (!options?.overwrite && relay.activeSubIds.has(subId))
+        (!options?.relays && !relay.read) ||
+        (!options?.overwrite &&
+          (relay.activeSubIds.has(subId) || isQueued(relay, subId)))
       ) {
         continue;
       }
 
-      relay.websocket.send(req);
-      relay.activeSubIds.add(subId);
+      if (!relay.activeSubIds.has(subId) && !this.hasFreeSlot(relay, req)) {
+        // It will be sent by `flushReqQueue()` when a slot becomes free.
+        this.enqueueReq(relay, req);
+        continue;
+      }
+
+      this.activateReq(relay, req);
+    }
+  }
+
+  private activateReq(relay: RelayState, req: Nostr.OutgoingMessage.REQ) {
+    const shapedReq = shapeReq(req, relay.info.value?.limitation);
+    relay.activeSubIds.set(shapedReq[1], shapedReq);
+    if (relay.websocket.isOpen()) {
+      this.sendReq(relay, shapedReq);
+    } else {
+      // REQ will be sent by `restoreReqs()` when the connection is ready.
+      this.connect(relay);
+    }
+  }
+
+  private sendReq(relay: RelayState, req: Nostr.OutgoingMessage.REQ) {
+    if (
+      this.options.authenticator &&
+      relay.info.value?.limitation?.auth_required &&
+      !relay.auth.authenticated
+    ) {
+      // The relay will reject REQs until AUTH succeeds.
+      relay.auth.pending = relay.auth.pending.filter(
+        (msg) => msg[0] !== "REQ" || msg[1] !== req[1]
+      );
+      relay.auth.pending.push(req);
+      return;
+    }
+
+    const chunks = splitReq(req, relay.info.value?.limitation?.max_filters);
+    const subIds = chunks.map(([, subId]) => subId);
+    // Chunks of the previous REQ which are no longer used must be closed.
+    for (const subId of forgetChunkedReq(relay, req[1])) {
+      if (!subIds.includes(subId)) {
+        relay.websocket.send(["CLOSE", subId]);
+      }
+    }
+    if (chunks.length > 1) {
+      const chunked: ChunkedReq = {
+        subId: req[1],
+        subIds,
+        pending: new Set(subIds),
+        eosed: false,
+      };
+      for (const subId of subIds) {
+        relay.chunkedReqs.set(subId, chunked);
+      }
+    }
+
+    for (const chunk of chunks) {
+      relay.websocket.send(chunk);
+    }
+  }
+
+  /** Send CLOSE for all chunks of the REQ. */
+  private closeReq(relay: RelayState, subId: string) {
+    for (const chunkSubId of forgetChunkedReq(relay, subId)) {
+      relay.websocket.send(["CLOSE", chunkSubId]);
+    }
+  }
+
+  /**
+   * Convert a message for a chunk of a split REQ into one for the original REQ.
+   * EOSE and CLOSED are passed only when all chunks have received either of them,
+   * and null is returned until then.
+   */
+  private restoreChunkedMessage(packet: MessagePacket): MessagePacket | null {
+    const { from, message } = packet;
+    if (
+      message[0] !== "EVENT" &&
+      message[0] !== "EOSE" &&
+      message[0] !== "CLOSED"
+    ) {
+      return packet;
+    }
+
+    const chunked = this.getRelay(from)?.chunkedReqs.get(message[1]);
+    if (!chunked) {
+      return packet;
+    }
+
+    switch (message[0]) {
+      case "EVENT":
+        return { from, message: ["EVENT", chunked.subId, message[2]] };
+      case "EOSE":
+      case "CLOSED": {
+        if (
+          message[0] === "CLOSED" &&
+          willBeSentAgain(message, this.options.authenticator)
+        ) {
+          return { from, message: ["CLOSED", chunked.subId, message[2]] };
+        }
+
+        chunked.pending.delete(message[1]);
+        chunked.eosed ||= message[0] === "EOSE";
+        if (chunked.pending.size > 0) {
+          return null;
+        }
+        // CLOSED is passed only when no chunk is alive.
+        return chunked.eosed || message[0] === "EOSE"
+          ? { from, message: ["EOSE", chunked.subId] }
+          : { from, message: ["CLOSED", chunked.subId, message[2]] };
+      }
+    }
+  }
+
+  /**
+   * Whether the REQ can be sent to the relay now.
+   * A REQ split by `max_filters` takes a slot per chunk,
+   * but it's sent anyway if no other REQ is active.
+   */
+  private hasFreeSlot(
+    relay: RelayState,
+    req: Nostr.OutgoingMessage.REQ
+  ): boolean {
+    if (!relay.info.settled) {
+      return false;
+    }
+
+    const limitation = relay.info.value?.limitation;
+    const max = Math.min(
+      limitation?.max_subscriptions ?? Infinity,
+      this.options.maxConcurrentReqs ?? Infinity
+    );
+    const countSlots = (req: Nostr.OutgoingMessage.REQ) =>
+      countChunks(req, limitation?.max_filters);
+    const used = Array.from(relay.activeSubIds.values())
+      .map(countSlots)
+      .reduce((acc, n) => acc + n, 0);
+    return used <= 0 || used + countSlots(req) <= max;
+  }
+
+  /** Forward REQs are queued ahead of backward and oneshot REQs. */
+  private enqueueReq(relay: RelayState, req: Nostr.OutgoingMessage.REQ) {
+    dequeueReq(relay, req[1]);
+
+    const isForward = (subId: string) => this.activeReqs.has(subId);
+    const index = isForward(req[1])
+      ? relay.queuedReqs.findIndex(([, subId]) => !isForward(subId))
+      : -1;
+    if (index >= 0) {
+      relay.queuedReqs.splice(index, 0, req);
+    } else {
+      relay.queuedReqs.push(req);
+    }
+  }
+
+  /** Send queued REQs as long as the relay has free slots. */
+  private flushReqQueue(relay: RelayState) {
+    while (
+      relay.queuedReqs.length > 0 &&
+      this.hasFreeSlot(relay, relay.queuedReqs[0])
+    ) {
+      const req = unnull(relay.queuedReqs.shift());
+      this.activateReq(relay, req);
     }
   }
 
@@ -572,18 +1669,190 @@ class RxNostrImpl implements RxNostr {
       throw new Error();
     }
 
-    const relays = url ? [unnull(this.relays.get(url))] : this.relays.values();
+    const relays = url ? [unnull(this.getRelay(url))] : this.getAllRelays();
     for (const relay of relays) {
-      const subIds = subId ? [subId] : Array.from(relay.activeSubIds);
+      if (subId) {
+        dequeueReq(relay, subId);
+      } else {
+        relay.queuedReqs.splice(0);
+      }
+
+      const subIds = subId ? [subId] : Array.from(relay.activeSubIds.keys());
       for (const subId of subIds) {
         if (relay.activeSubIds.has(subId)) {
-          relay.websocket.send(["CLOSE", subId]);
+          this.closeReq(relay, subId);
         }
         relay.activeSubIds.delete(subId);
       }
+      this.flushReqQueue(relay);
+      this.disconnectIfIdle(relay);
     }
   }
 
+  private connect(relay: RelayState) {
+    clearIdleTimer(relay);
+    relay.websocket.start();
+  }
+
+  private disconnectIfIdle(relay: RelayState) {
+    if (
+      this.isConnectionRequired(relay) ||
+      !isIdle(relay) ||
+      relay.connection.idleTimer !== null
+    ) {
+      return;
+    }
+
+    relay.connection.idleTimer = setTimeout(() => {
+      relay.connection.idleTimer = null;
+      if (isIdle(relay)) {
+        relay.websocket.stop();
+      }
+    }, this.options.idleTimeout);
+  }
+
+  /**
+   * Send all active REQs of the relay again.
+   * It is called every time the connection gets ready.
+   */
+  private restoreReqs(url: string) {
+    const relay = this.getRelay(url);
+    if (!relay) {
+      return;
+    }
+
+    const disconnectedAt = relay.connection.disconnectedAt;
+    relay.connection.disconnectedAt = null;
+
+    for (const [subId, req] of relay.activeSubIds) {
+      // Forward REQs don't have to receive again events they received before disconnection.
+      const nextReq =
+        disconnectedAt !== null && this.activeReqs.has(subId)
+          ? updateSince(req, disconnectedAt)
+          : req;
+      relay.activeSubIds.set(subId, nextReq);
+      this.sendReq(relay, nextReq);
+    }
+  }
+
+  private handleDisconnection(url: string) {
+    const relay = this.getRelay(url);
+    if (!relay) {
+      return;
+    }
+
+    relay.connection.disconnectedAt ??= Math.floor(Date.now() / 1000);
+    relay.auth.authenticated = false;
+
+    // Otherwise the websocket will try to reconnect following `retry` option.
+    // Pending OKs, COUNTs and syncs also need the connection, as well as REQs.
+    const shouldKeepConnection =
+      this.isConnectionRequired(relay) || !isIdle(relay);
+    if (!shouldKeepConnection) {
+      relay.websocket.stop();
+    }
+  }
+
+  /**
+   * Whether the connection should be kept regardless of subscriptions.
+   * It's true only for readable relays in the default relay set under eager strategy.
+   */
+  private isConnectionRequired(relay: RelayState): boolean {
+    return (
+      this.options.connectionStrategy === "eager" &&
+      relay.read &&
+      this.relays.has(relay.url)
+    );
+  }
+
+  private handleAuthMessage({ from, message }: MessagePacket) {
+    const relay = this.getRelay(from);
+    if (!relay) {
+      return;
+    }
+
+    switch (message[0]) {
+      case "AUTH": {
+        this.authenticate(relay, message[1]);
+        break;
+      }
+      case "OK": {
+        const [, eventId, accepted] = message;
+        if (eventId !== relay.auth.eventId) {
+          break;
+        }
+        relay.auth.eventId = null;
+        relay.auth.authenticated = accepted;
+        if (accepted) {
+          const pending = relay.auth.pending;
+          relay.auth.pending = [];
+          for (const msg of pending) {
+            // Skip REQs that have been CLOSEd while waiting for AUTH.
+            if (msg[0] !== "REQ") {
+              relay.websocket.send(msg);
+            } else if (relay.activeSubIds.has(msg[1])) {
+              this.sendReq(relay, msg);
+            }
+          }
+        }
+        break;
+      }
+      case "CLOSED": {
+        const req = relay.activeSubIds.get(message[1]);
+        // All chunks of a split REQ may be CLOSED, but it's pended only once.
+        if (
+          req &&
+          isAuthRequired(message) &&
+          !relay.auth.pending.includes(req)
+        ) {
+          relay.auth.pending.push(req);
+        }
+        break;
+      }
+    }
+  }
+
+  private handleClosedMessage({ from, message }: MessagePacket) {
+    if (
+      message[0] !== "CLOSED" ||
+      willBeSentAgain(message, this.options.authenticator)
+    ) {
+      return;
+    }
+
+    const relay = this.getRelay(from);
+    if (!relay) {
+      return;
+    }
+
+    // The relay has already terminated the subscription, so CLOSE is unnecessary.
+    relay.activeSubIds.delete(message[1]);
+    forgetChunkedReq(relay, message[1]);
+    this.flushReqQueue(relay);
+    this.disconnectIfIdle(relay);
+  }
+
+  private authenticate(relay: RelayState, challenge: string) {
+    const signer = this.options.authenticator?.signer ?? this.options.signer;
+
+    signer
+      .signEvent({
+        kind: Nostr.Kind.Auth,
+        content: "",
+        tags: [
+          ["relay", relay.url],
+          ["challenge", challenge],
+        ],
+      })
+      .then((event) => {
+        relay.auth.eventId = event.id;
+        relay.websocket.send(["AUTH", event]);
+      })
+      .catch((reason: unknown) => {
+        this.error$.next({ from: relay.url, reason });
+      });
+  }
+
   private getReadableUrls(relays?: Relay[]): string[] {
     return Array.from(relays ?? this.relays.values())
       .filter((e) => e.read)
@@ -600,8 +1869,252 @@ interface RelayState {
   url: string;
   read: boolean;
   write: boolean;
-  activeSubIds: Set<string>;
+  /** Active subIds and the REQ last sent for each of them. */
+  activeSubIds: Map<string, Nostr.OutgoingMessage.REQ>;
+  /** REQs waiting for a free subscription slot. */
+  queuedReqs: Nostr.OutgoingMessage.REQ[];
+  /** REQs split by `max_filters`, keyed by subIds of their chunks. */
+  chunkedReqs: Map<string, ChunkedReq>;
   websocket: WebsocketSubject;
+  auth: RelayAuthState;
+  connection: RelayConnectionState;
+  info: RelayInfoState;
+}
+
+interface RelayInfoState {
+  value: RelayInfo | null;
+  promise: Promise<RelayInfo> | null;
+  /** False while the first fetch is in progress, during which REQs are queued. */
+  settled: boolean;
+}
+
+interface ChunkedReq {
+  /** The subId of the original REQ, which is also used by the first chunk. */
+  subId: string;
+  /** SubIds of all chunks. */
+  subIds: string[];
+  /** SubIds of chunks which have received neither EOSE nor CLOSED. */
+  pending: Set<string>;
+  /** Whether any chunk has received EOSE. */
+  eosed: boolean;
+}
+
+interface TemporaryRelay {
+  relay: RelayState;
+  /** The number of `use()` and `send()` using the relay. */
+  refCount: number;
+}
+
+interface RelayConnectionState {
+  /** The number of EVENTs waiting for OK. */
+  pendingOks: number;
+  /** The number of COUNTs waiting for the response. */
+  pendingCounts: number;
+  /** The number of negentropy reconciliations in progress. */
+  pendingSyncs: number;
+  /** Unix time when the connection was lost, or null if it's not lost. */
+  disconnectedAt: number | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface RelayAuthState {
+  /** The id of the AUTH event waiting for OK. */
+  eventId: string | null;
+  /** Messages rejected with `auth-required:`, which will be sent again after AUTH. */
+  pending: Nostr.OutgoingMessage.Any[];
+  authenticated: boolean;
+}
+
+async function encryptContent(
+  params: Nostr.EventParameters,
+  signer: EventSigner,
+  encryption: SendEncryption | undefined
+): Promise<Nostr.EventParameters> {
+  if (!encryption) {
+    return params;
+  }
+
+  const encryptor = signer[encryption.scheme];
+  if (!encryptor) {
+    throw new Error(`The signer doesn't support ${encryption.scheme}.`);
+  }
+
+  return {
+    ...params,
+    content: await encryptor.encrypt(encryption.pubkey, params.content),
+  };
+}
+
+async function minePowIfRequired(
+  params: Nostr.EventParameters,
+  signer: EventSigner,
+  pow: PowOptions | undefined
+): Promise<Nostr.EventParameters> {
+  if (!pow) {
+    return params;
+  }
+
+  return mineEvent(params, await signer.getPublicKey(), pow);
+}
+
+function normalizeRelayUrl(url: string): string {
+  return normalizeUrl(url, {
+    normalizeProtocol: false,
+  });
+}
+
+function isIdle(relay: RelayState): boolean {
+  return (
+    relay.activeSubIds.size <= 0 &&
+    relay.queuedReqs.length <= 0 &&
+    relay.connection.pendingOks <= 0 &&
+    relay.connection.pendingCounts <= 0 &&
+    relay.connection.pendingSyncs <= 0
+  );
+}
+
+function isQueued(relay: RelayState, subId: string): boolean {
+  return relay.queuedReqs.some((req) => req[1] === subId);
+}
+
+function dequeueReq(relay: RelayState, subId: string) {
+  const index = relay.queuedReqs.findIndex((req) => req[1] === subId);
+  if (index >= 0) {
+    relay.queuedReqs.splice(index, 1);
+  }
+}
+
+/**
+ * Adjust the REQ to the relay's limitation.
+ * `limit` is clamped to `max_limit`. `max_filters` is handled by `splitReq()` on sending.
+ */
+function shapeReq(
+  req: Nostr.OutgoingMessage.REQ,
+  limitation: RelayLimitation | undefined
+): Nostr.OutgoingMessage.REQ {
+  if (!limitation) {
+    return req;
+  }
+
+  const { max_limit } = limitation;
+  const [, subId, ...filters] = req;
+
+  return [
+    "REQ",
+    subId,
+    ...filters.map((filter) =>
+      max_limit !== undefined &&
+      filter.limit !== undefined &&
+      filter.limit > max_limit
+        ? { ...filter, limit: max_limit }
+        : filter
+    ),
+  ];
+}
+
+/**
+ * Split the REQ into chunks each of which has `maxFilters` filters at most.
+ * The first chunk keeps the subId and the others get derived ones.
+ */
+function splitReq(
+  req: Nostr.OutgoingMessage.REQ,
+  maxFilters: number | undefined
+): Nostr.OutgoingMessage.REQ[] {
+  const [, subId, ...filters] = req;
+  if (countChunks(req, maxFilters) <= 1) {
+    return [req];
+  }
+
+  const size = unnull(maxFilters);
+  return Array.from(
+    { length: countChunks(req, maxFilters) },
+    (_, i): Nostr.OutgoingMessage.REQ => [
+      "REQ",
+      i === 0 ? subId : `${subId}#${i}`,
+      ...filters.slice(i * size, (i + 1) * size),
+    ]
+  );
+}
+
+function countChunks(
+  req: Nostr.OutgoingMessage.REQ,
+  maxFilters: number | undefined
+): number {
+  const [, , ...filters] = req;
+  return maxFilters === undefined || maxFilters < 1
+    ? 1
+    : Math.max(1, Math.ceil(filters.length / maxFilters));
+}
+
+/** Forget chunks of the REQ and return their subIds. */
+function forgetChunkedReq(relay: RelayState, subId: string): string[] {
+  const chunked = relay.chunkedReqs.get(subId);
+  if (!chunked) {
+    return [subId];
+  }
+
+  for (const chunkSubId of chunked.subIds) {
+    relay.chunkedReqs.delete(chunkSubId);
+  }
+  return chunked.subIds;
+}
+
+function clearIdleTimer(relay: RelayState) {
+  if (relay.connection.idleTimer !== null) {
+    clearTimeout(relay.connection.idleTimer);
+    relay.connection.idleTimer = null;
+  }
+}
+
+function updateSince(
+  req: Nostr.OutgoingMessage.REQ,
+  since: number
+): Nostr.OutgoingMessage.REQ {
+  const [, subId, ...filters] = req;
+  return [
+    "REQ",
+    subId,
+    ...filters.map((filter) => ({
+      ...filter,
+      since: Math.max(filter.since ?? 0, since),
+    })),
+  ];
+}
+
+const okPacketPrefixes: OkPacketPrefix[] = [
+  "duplicate",
+  "pow",
+  "blocked",
+  "rate-limited",
+  "invalid",
+  "error",
+  "auth-required",
+  "restricted",
+];
+
+function parseOkPrefix(notice?: string): OkPacketPrefix | undefined {
+  const prefix = notice?.split(":", 1)[0];
+  return okPacketPrefixes.find((e) => e === prefix);
+}
+
+/**
+ * Whether the REQ that the relay CLOSED is going to be sent again after AUTH.
+ */
+function willBeSentAgain(
+  message: Nostr.IncomingMessage.CLOSED,
+  authenticator: Authenticator | undefined
+): boolean {
+  return !!authenticator && isAuthRequired(message);
+}
+
+function isAuthRequired(
+  message: Nostr.IncomingMessage.OK | Nostr.IncomingMessage.CLOSED
+): boolean {
+  const notice = message[0] === "OK" ? message[3] : message[2];
+  return (
+    (message[0] !== "OK" || !message[2]) &&
+    !!notice?.startsWith("auth-required:")
+  );
 }
 
 function makeSubId(params: { rxReqId: string; index?: number }): string {
@@ -3,6 +3,7 @@ import { sha256 } from "@noble/hashes/sha256";
 import { bytesToHex } from "@noble/hashes/utils";
 
 import { toHex } from "./bech32.js";
+import { minePow, PowOptions } from "./nip13.js";
 import { Nostr } from "./primitive.js";
 
 const utf8Encoder = new TextEncoder();
@@ -11,20 +12,34 @@ export function getPublicKey(seckey: string): string {
   return bytesToHex(schnorr.getPublicKey(seckey));
 }
 
-export function createEventBySecretKey(
-  params: Nostr.EventParameters,
+export function createEventBySecretKey<K extends number>(
+  params: Nostr.EventParameters<K>,
   seckey: string
-): Nostr.Event {
+): Nostr.Event<K>;
+/**
+ * With `pow` option, the event is signed after mining a `nonce` tag (NIP-13).
+ */
+export function createEventBySecretKey<K extends number>(
+  params: Nostr.EventParameters<K>,
+  seckey: string,
+  pow: PowOptions
+): Promise<Nostr.Event<K>>;
+export function createEventBySecretKey<K extends number>(
+  params: Nostr.EventParameters<K>,
+  seckey: string,
+  pow?: PowOptions
+): Nostr.Event<K> | Promise<Nostr.Event<K>> {
+  if (pow) {
+    return mineEvent(params, getPublicKeyOf(params, seckey), pow).then(
+      (mined) => createEventBySecretKey(mined, seckey)
+    );
+  }
+
   const sechex = seckey?.startsWith("nsec1") ? toHex(seckey) : seckey;
-  const pubhex = !params.pubkey
-    ? getPublicKey(sechex)
-    : params.pubkey.startsWith("npub1")
-    ? toHex(params.pubkey)
-    : params.pubkey;
   const event = {
     ...params,
     tags: params.tags ?? [],
-    pubkey: pubhex,
+    pubkey: getPublicKeyOf(params, sechex),
     created_at: params.created_at ?? getCreatedAt(),
   };
   const id = event.id ?? getEventHash(event);
@@ -36,9 +51,41 @@ export function createEventBySecretKey(
   };
 }
 
-export async function createEventByNip07(
-  params: Nostr.EventParameters
-): Promise<Nostr.Event> {
+/**
+ * Fix `pubkey` and `created_at` of the event and add a `nonce` tag (NIP-13).
+ */
+export async function mineEvent<K extends number>(
+  params: Nostr.EventParameters<K>,
+  pubkey: string,
+  pow: PowOptions
+): Promise<Nostr.EventParameters<K>> {
+  const miner = pow.miner ?? minePow;
+
+  return miner(
+    {
+      kind: params.kind,
+      tags: params.tags ?? [],
+      pubkey,
+      content: params.content,
+      created_at: params.created_at ?? getCreatedAt(),
+    },
+    pow.difficulty,
+    pow.signal
+  );
+}
+
+function getPublicKeyOf(params: Nostr.EventParameters, seckey: string): string {
+  if (params.pubkey) {
+    return params.pubkey.startsWith("npub1")
+      ? toHex(params.pubkey)
+      : params.pubkey;
+  }
+  return getPublicKey(seckey.startsWith("nsec1") ? toHex(seckey) : seckey);
+}
+
+export async function createEventByNip07<K extends number>(
+  params: Nostr.EventParameters<K>
+): Promise<Nostr.Event<K>> {
   const nostr = (window ?? {})?.nostr;
   if (!nostr) {
     throw new Error("NIP-07 interface is not ready.");
@@ -49,7 +96,7 @@ export async function createEventByNip07(
     tags: params.tags ?? [],
     content: params.content,
     created_at: params.created_at ?? getCreatedAt(),
-  });
+  }) as Promise<Nostr.Event<K>>;
 }
 
 export function getEventHash(event: Nostr.UnsignedEvent): string {
@@ -95,6 +142,6 @@ export function ensureRequiredFields(event: Nostr.Event): boolean {
   return true;
 }
 
-function getCreatedAt() {
+export function getCreatedAt() {
   return Math.floor(new Date().getTime() / 1000);
 }
@@ -0,0 +1,156 @@
+import { Nostr } from "./primitive.js";
+
+/**
+ * Return true if the event matches at least one of the filters.
+ * `limit` is not considered because it is not a property of each event.
+ */
+export function isFiltered(
+  event: Nostr.Event,
+  filters: Nostr.Filter | Nostr.Filter[]
+): boolean {
+  if (Array.isArray(filters)) {
+    return filters.some((filter) => isFiltered(event, filter));
+  }
+
+  const filter = filters;
+  if (filter.ids && !filter.ids.some((id) => event.id.startsWith(id))) {
+    return false;
+  }
+  if (filter.kinds && !filter.kinds.includes(event.kind)) {
+    return false;
+  }
+  if (
+    filter.authors &&
+    !filter.authors.some((author) => event.pubkey.startsWith(author))
+  ) {
+    return false;
+  }
+  if (filter.since !== undefined && event.created_at < filter.since) {
+    return false;
+  }
+  if (filter.until !== undefined && event.created_at > filter.until) {
+    return false;
+  }
+
+  for (const [key, values] of Object.entries(filter)) {
+    if (!key.startsWith("#") || !Array.isArray(values)) {
+      continue;
+    }
+    const tagName = key.slice(1);
+    const matched = event.tags.some(
+      ([name, value]) => name === tagName && values.includes(value)
+    );
+    if (!matched) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Merge two lists of filters into an equivalent list.
+ * Filters which differ only in one of `ids`, `kinds`, `authors` and tag queries
+ * are merged into one by the union of the values.
+ * Filters with `limit` are never merged because it would limit the union.
+ */
+export function mergeFilters(
+  a: Nostr.Filter[],
+  b: Nostr.Filter[]
+): Nostr.Filter[] {
+  const merged = [...a];
+
+  for (const filter of b) {
+    let done = false;
+    for (let i = 0; i < merged.length && !done; i++) {
+      const union = mergeFilter(merged[i], filter);
+      if (union) {
+        merged[i] = union;
+        done = true;
+      }
+    }
+    if (!done) {
+      merged.push(filter);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Split filters so that no field has more than `maxValues` values,
+ * and pack them into chunks each of which has at most `maxFilters` filters.
+ * Each chunk is supposed to be sent as a REQ.
+ */
+export function chunkFilters(
+  filters: Nostr.Filter[],
+  maxValues = 1000,
+  maxFilters = 10
+): Nostr.Filter[][] {
+  const split = filters.flatMap((filter) => splitFilter(filter, maxValues));
+
+  const chunks: Nostr.Filter[][] = [];
+  for (let i = 0; i < split.length; i += maxFilters) {
+    chunks.push(split.slice(i, i + maxFilters));
+  }
+  return chunks;
+}
+
+type FilterKey = keyof Nostr.Filter;
+type FilterValue = Nostr.Filter[FilterKey];
+
+function mergeFilter(a: Nostr.Filter, b: Nostr.Filter): Nostr.Filter | null {
+  if (a.limit !== undefined || b.limit !== undefined) {
+    return null;
+  }
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as FilterKey[]);
+  const differentKeys = Array.from(keys).filter(
+    (key) => !isSameValue(a[key], b[key])
+  );
+  if (differentKeys.length <= 0) {
+    return a;
+  }
+  if (differentKeys.length > 1) {
+    return null;
+  }
+
+  const [key] = differentKeys;
+  const x = a[key];
+  const y = b[key];
+  if (!Array.isArray(x) || !Array.isArray(y)) {
+    return null;
+  }
+
+  return { ...a, [key]: Array.from(new Set([...x, ...y])) };
+}
+
+function isSameValue(x: FilterValue, y: FilterValue): boolean {
+  if (Array.isArray(x) && Array.isArray(y)) {
+    const xs = new Set<string | number>(x);
+    const ys = new Set<string | number>(y);
+    return xs.size === ys.size && Array.from(ys).every((v) => xs.has(v));
+  }
+  return x === y;
+}
+
+function splitFilter(filter: Nostr.Filter, maxValues: number): Nostr.Filter[] {
+  const oversized = Object.entries(filter).find(
+    ([, values]) => Array.isArray(values) && values.length > maxValues
+  );
+  if (!oversized) {
+    return [filter];
+  }
+
+  const [key, values] = oversized as [string, (string | number)[]];
+  const pieces: Nostr.Filter[] = [];
+  for (let i = 0; i < values.length; i += maxValues) {
+    pieces.push(
+      ...splitFilter(
+        { ...filter, [key]: values.slice(i, i + maxValues) },
+        maxValues
+      )
+    );
+  }
+  return pieces;
+}
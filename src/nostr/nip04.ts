@@ -0,0 +1,42 @@
+import { cbc } from "@noble/ciphers/aes";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { randomBytes } from "@noble/hashes/utils";
+import { base64 } from "@scure/base";
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+export function encryptNip04(
+  seckey: string,
+  pubkey: string,
+  plaintext: string
+): string {
+  const key = getSharedKey(seckey, pubkey);
+  const iv = randomBytes(16);
+  const ciphertext = cbc(key, iv).encrypt(utf8Encoder.encode(plaintext));
+
+  return `${base64.encode(ciphertext)}?iv=${base64.encode(iv)}`;
+}
+
+export function decryptNip04(
+  seckey: string,
+  pubkey: string,
+  payload: string
+): string {
+  const [ciphertext, iv] = payload.split("?iv=");
+  if (!ciphertext || !iv) {
+    throw new Error("Invalid NIP-04 payload.");
+  }
+
+  const key = getSharedKey(seckey, pubkey);
+  const plaintext = cbc(key, base64.decode(iv)).decrypt(
+    base64.decode(ciphertext)
+  );
+
+  return utf8Decoder.decode(plaintext);
+}
+
+function getSharedKey(seckey: string, pubkey: string): Uint8Array {
+  // Only X coordinate of the shared point is used.
+  return secp256k1.getSharedSecret(seckey, "02" + pubkey).slice(1, 33);
+}
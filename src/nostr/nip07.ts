@@ -15,6 +15,13 @@ export interface Nip07 {
     created_at: number;
   }>;
   getRelays(): Promise<{ [url: string]: { read: boolean; write: boolean } }>;
+  nip04?: Nip07Encryption;
+  nip44?: Nip07Encryption;
+}
+
+export interface Nip07Encryption {
+  encrypt(pubkey: string, plaintext: string): Promise<string>;
+  decrypt(pubkey: string, ciphertext: string): Promise<string>;
 }
 
 declare global {
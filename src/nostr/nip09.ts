@@ -0,0 +1,87 @@
+import { Nostr } from "./primitive.js";
+
+/**
+ * Return `<kind>:<pubkey>:<d-tag>` of replaceable or parameterized replaceable events,
+ * or null for other events.
+ */
+export function getCoordinate(event: Nostr.Event): string | null {
+  const { kind, pubkey } = event;
+
+  if (30000 <= kind && kind < 40000) {
+    const d = event.tags.find(([name]) => name === "d")?.[1] ?? "";
+    return `${kind}:${pubkey}:${d}`;
+  }
+  if (
+    kind === Nostr.Kind.Metadata ||
+    kind === Nostr.Kind.Contacts ||
+    (10000 <= kind && kind < 20000)
+  ) {
+    return `${kind}:${pubkey}:`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether the deletion event (NIP-09) deletes the event.
+ * Only deletions by the same pubkey are effective.
+ */
+export function isDeletedBy(
+  event: Nostr.Event,
+  deletion: Nostr.Event
+): boolean {
+  if (
+    deletion.kind !== Nostr.Kind.EventDeletion ||
+    deletion.pubkey !== event.pubkey
+  ) {
+    return false;
+  }
+
+  const coordinate = getCoordinate(event);
+  return deletion.tags.some(
+    ([name, value]) =>
+      (name === "e" && value === event.id) ||
+      (name === "a" &&
+        value === coordinate &&
+        event.created_at <= deletion.created_at)
+  );
+}
+
+/**
+ * Remember deletion events to judge whether an event has been deleted.
+ */
+export class DeletionTracker {
+  /** `<pubkey>:<id>` of deleted events. */
+  private ids: Set<string> = new Set();
+  /** Deleted coordinates and the latest `created_at` of deletions for them. */
+  private coordinates: Map<string, number> = new Map();
+
+  add(deletion: Nostr.Event) {
+    if (deletion.kind !== Nostr.Kind.EventDeletion) {
+      return;
+    }
+
+    for (const [name, value] of deletion.tags) {
+      if (name === "e" && value) {
+        this.ids.add(`${deletion.pubkey}:${value}`);
+      }
+      // The coordinate contains its author's pubkey.
+      if (name === "a" && value?.split(":")[1] === deletion.pubkey) {
+        this.coordinates.set(
+          value,
+          Math.max(this.coordinates.get(value) ?? 0, deletion.created_at)
+        );
+      }
+    }
+  }
+
+  isDeleted(event: Nostr.Event): boolean {
+    if (this.ids.has(`${event.pubkey}:${event.id}`)) {
+      return true;
+    }
+
+    const coordinate = getCoordinate(event);
+    const deletedAt = coordinate ? this.coordinates.get(coordinate) : undefined;
+    return deletedAt !== undefined && event.created_at <= deletedAt;
+  }
+}
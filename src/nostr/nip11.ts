@@ -0,0 +1,67 @@
+/**
+ * Relay information document (NIP-11).
+ */
+export interface RelayInfo {
+  name?: string;
+  description?: string;
+  pubkey?: string;
+  contact?: string;
+  supported_nips?: number[];
+  software?: string;
+  version?: string;
+  limitation?: RelayLimitation;
+}
+
+export interface RelayLimitation {
+  max_message_length?: number;
+  max_subscriptions?: number;
+  max_filters?: number;
+  max_limit?: number;
+  max_subid_length?: number;
+  max_event_tags?: number;
+  max_content_length?: number;
+  min_pow_difficulty?: number;
+  auth_required?: boolean;
+  payment_required?: boolean;
+  restricted_writes?: boolean;
+}
+
+/**
+ * Fetch the relay information document from the relay's HTTP endpoint.
+ * If `timeout` is given, the request is aborted and rejected after the milliseconds.
+ */
+export async function fetchRelayInfo(
+  url: string,
+  fetcher: typeof fetch = fetch,
+  timeout?: number
+): Promise<RelayInfo> {
+  const httpUrl = url.replace(/^ws(s?):\/\//, "http$1://");
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Race with the timer too, in case the fetcher ignores the signal.
+  const timeout$ = new Promise<never>((_, reject) => {
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Fetching relay information timed out: ${url}`));
+      }, timeout);
+    }
+  });
+
+  try {
+    const res = await Promise.race([
+      fetcher(httpUrl, {
+        headers: { Accept: "application/nostr+json" },
+        signal: controller.signal,
+      }),
+      timeout$,
+    ]);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch relay information: ${res.status}`);
+    }
+
+    return await Promise.race([res.json(), timeout$]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,65 @@
+import { getEventHash } from "./event.js";
+import { Nostr } from "./primitive.js";
+
+/**
+ * A function to find a `nonce` tag which makes the event id satisfy the difficulty.
+ * It can be replaced to run mining off the main thread, e.g. in a Web Worker.
+ */
+export type PowMiner = <K extends number>(
+  event: Nostr.UnsignedEvent<K>,
+  difficulty: number,
+  signal?: AbortSignal
+) => Promise<Nostr.UnsignedEvent<K>>;
+
+export interface PowOptions {
+  /** The number of leading zero bits required for the event id. */
+  difficulty: number;
+  /** If omitted, `minePow()` is used. */
+  miner?: PowMiner;
+  /** Mining is cancelled when the signal is aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Count leading zero bits of the hex string.
+ */
+export function getPow(id: string): number {
+  let count = 0;
+
+  for (const char of id) {
+    const nibble = parseInt(char, 16);
+    if (nibble === 0) {
+      count += 4;
+    } else {
+      count += Math.clz32(nibble) - 28;
+      break;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Mine on the current thread.
+ * It yields to the event loop periodically so that `signal` can take effect.
+ */
+export const minePow: PowMiner = async (event, difficulty, signal) => {
+  const tags = event.tags.filter(([name]) => name !== "nonce");
+
+  for (let nonce = 0; ; nonce++) {
+    if (nonce % 10000 === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal?.aborted) {
+        throw signal.reason ?? new Error("Mining was aborted.");
+      }
+    }
+
+    const candidate = {
+      ...event,
+      tags: [...tags, ["nonce", String(nonce), String(difficulty)]],
+    };
+    if (getPow(getEventHash(candidate)) >= difficulty) {
+      return candidate;
+    }
+  }
+};
@@ -0,0 +1,125 @@
+import { chacha20 } from "@noble/ciphers/chacha";
+import { equalBytes } from "@noble/ciphers/utils";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import {
+  expand as hkdfExpand,
+  extract as hkdfExtract,
+} from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { concatBytes, randomBytes } from "@noble/hashes/utils";
+import { base64 } from "@scure/base";
+
+const VERSION = 2;
+const MIN_PLAINTEXT_SIZE = 1;
+const MAX_PLAINTEXT_SIZE = 65535;
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+export function encryptNip44(
+  seckey: string,
+  pubkey: string,
+  plaintext: string,
+  nonce: Uint8Array = randomBytes(32)
+): string {
+  const { chachaKey, chachaNonce, hmacKey } = getMessageKeys(
+    getConversationKey(seckey, pubkey),
+    nonce
+  );
+  const ciphertext = chacha20(chachaKey, chachaNonce, pad(plaintext));
+  const mac = hmac(sha256, hmacKey, concatBytes(nonce, ciphertext));
+
+  return base64.encode(
+    concatBytes(new Uint8Array([VERSION]), nonce, ciphertext, mac)
+  );
+}
+
+export function decryptNip44(
+  seckey: string,
+  pubkey: string,
+  payload: string
+): string {
+  if (payload.length < 132 || payload.length > 87472 || payload[0] === "#") {
+    throw new Error("Invalid NIP-44 payload.");
+  }
+
+  const data = base64.decode(payload);
+  if (data[0] !== VERSION) {
+    throw new Error(`Unsupported NIP-44 version: ${data[0]}`);
+  }
+
+  const nonce = data.subarray(1, 33);
+  const ciphertext = data.subarray(33, -32);
+  const mac = data.subarray(-32);
+
+  const { chachaKey, chachaNonce, hmacKey } = getMessageKeys(
+    getConversationKey(seckey, pubkey),
+    nonce
+  );
+  if (!equalBytes(hmac(sha256, hmacKey, concatBytes(nonce, ciphertext)), mac)) {
+    throw new Error("Invalid NIP-44 MAC.");
+  }
+
+  return unpad(chacha20(chachaKey, chachaNonce, ciphertext));
+}
+
+function getConversationKey(seckey: string, pubkey: string): Uint8Array {
+  // Only X coordinate of the shared point is used.
+  const sharedX = secp256k1
+    .getSharedSecret(seckey, "02" + pubkey)
+    .subarray(1, 33);
+
+  return hkdfExtract(sha256, sharedX, utf8Encoder.encode("nip44-v2"));
+}
+
+function getMessageKeys(conversationKey: Uint8Array, nonce: Uint8Array) {
+  const keys = hkdfExpand(sha256, conversationKey, nonce, 76);
+
+  return {
+    chachaKey: keys.subarray(0, 32),
+    chachaNonce: keys.subarray(32, 44),
+    hmacKey: keys.subarray(44, 76),
+  };
+}
+
+function calcPaddedLength(length: number): number {
+  if (length <= 32) {
+    return 32;
+  }
+
+  const nextPower = 1 << (Math.floor(Math.log2(length - 1)) + 1);
+  const chunk = nextPower <= 256 ? 32 : nextPower / 8;
+
+  return chunk * (Math.floor((length - 1) / chunk) + 1);
+}
+
+function pad(plaintext: string): Uint8Array {
+  const unpadded = utf8Encoder.encode(plaintext);
+  const length = unpadded.length;
+  if (length < MIN_PLAINTEXT_SIZE || length > MAX_PLAINTEXT_SIZE) {
+    throw new Error("Invalid plaintext length.");
+  }
+
+  const padded = new Uint8Array(2 + calcPaddedLength(length));
+  new DataView(padded.buffer).setUint16(0, length);
+  padded.set(unpadded, 2);
+
+  return padded;
+}
+
+function unpad(padded: Uint8Array): string {
+  const length = new DataView(
+    padded.buffer,
+    padded.byteOffset,
+    padded.byteLength
+  ).getUint16(0);
+  if (
+    length < MIN_PLAINTEXT_SIZE ||
+    padded.length !== 2 + calcPaddedLength(length)
+  ) {
+    throw new Error("Invalid padding.");
+  }
+
+  return utf8Decoder.decode(padded.subarray(2, 2 + length));
+}
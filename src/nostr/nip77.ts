@@ -0,0 +1,359 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils";
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+const BUCKETS = 16;
+
+const Mode = {
+  Skip: 0,
+  Fingerprint: 1,
+  IdList: 2,
+} as const;
+
+/** A timestamp greater than any other, which stands for the end of the range. */
+const INFINITY = Number.MAX_SAFE_INTEGER;
+
+export interface NegentropyItem {
+  id: string;
+  created_at: number;
+}
+
+export interface NegentropyReply {
+  /** The message to send back, or null if the reconciliation is complete. */
+  output: string | null;
+  /** Ids which only this side has. Only the initiator collects them. */
+  have: string[];
+  /** Ids which only the other side has. Only the initiator collects them. */
+  need: string[];
+}
+
+/** An item, or a bound between items whose `id` may be a prefix. */
+interface Bound {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+/**
+ * Set reconciliation by the negentropy protocol (version 1), which NIP-77 is based on.
+ * Messages are hex strings as they are in `NEG-OPEN` and `NEG-MSG`.
+ *
+ * A client initiates with `initiate()` and then passes every message
+ * from the relay to `reconcile()` until it returns null as `output`.
+ * The other side just replies with `reconcile()` to each message.
+ */
+export class Negentropy {
+  private items: Bound[];
+  private initiator = false;
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(items: NegentropyItem[]) {
+    this.items = items
+      .map(({ id, created_at }) => ({
+        timestamp: created_at,
+        id: hexToBytes(id),
+      }))
+      .sort(compareBound);
+  }
+
+  initiate(): string {
+    this.initiator = true;
+    this.lastTimestampOut = 0;
+
+    const output = [new Uint8Array([PROTOCOL_VERSION])];
+    this.splitRange(0, this.items.length, infiniteBound(), output);
+
+    return bytesToHex(concatBytes(...output));
+  }
+
+  reconcile(message: string): NegentropyReply {
+    const reader = new Reader(hexToBytes(message));
+    const have: string[] = [];
+    const need: string[] = [];
+    const output = [new Uint8Array([PROTOCOL_VERSION])];
+
+    this.lastTimestampIn = 0;
+    this.lastTimestampOut = 0;
+
+    const version = reader.readByte();
+    if (version < 0x60 || version > 0x6f) {
+      throw new Error("Invalid negentropy protocol version.");
+    }
+    if (version !== PROTOCOL_VERSION) {
+      if (this.initiator) {
+        throw new Error(
+          `Unsupported negentropy protocol version: ${version - 0x60}`
+        );
+      }
+      // Tell the initiator which version this side supports.
+      return { output: bytesToHex(output[0]), have, need };
+    }
+
+    let prevBound: Bound = { timestamp: 0, id: new Uint8Array() };
+    let prevIndex = 0;
+    // Consecutive skipped ranges are merged into one.
+    let skip = false;
+    const flushSkip = () => {
+      if (skip) {
+        skip = false;
+        output.push(this.encodeBound(prevBound), encodeVarint(Mode.Skip));
+      }
+    };
+
+    while (!reader.done) {
+      const bound = this.decodeBound(reader);
+      const mode = reader.readVarint();
+      const lower = prevIndex;
+      const upper = this.findLowerBound(prevIndex, bound);
+
+      switch (mode) {
+        case Mode.Skip: {
+          skip = true;
+          break;
+        }
+        case Mode.Fingerprint: {
+          const fingerprint = reader.readBytes(FINGERPRINT_SIZE);
+          if (compareBytes(fingerprint, this.fingerprint(lower, upper)) === 0) {
+            skip = true;
+          } else {
+            flushSkip();
+            this.splitRange(lower, upper, bound, output);
+          }
+          break;
+        }
+        case Mode.IdList: {
+          const count = reader.readVarint();
+          const theirIds = new Set<string>();
+          for (let i = 0; i < count; i++) {
+            theirIds.add(bytesToHex(reader.readBytes(ID_SIZE)));
+          }
+
+          if (this.initiator) {
+            skip = true;
+            for (const item of this.items.slice(lower, upper)) {
+              const id = bytesToHex(item.id);
+              if (!theirIds.delete(id)) {
+                have.push(id);
+              }
+            }
+            need.push(...theirIds);
+          } else {
+            flushSkip();
+            const ids = this.items.slice(lower, upper).map(({ id }) => id);
+            output.push(
+              this.encodeBound(bound),
+              encodeVarint(Mode.IdList),
+              encodeVarint(ids.length),
+              ...ids
+            );
+          }
+          break;
+        }
+        default: {
+          throw new Error(`Unexpected negentropy mode: ${mode}`);
+        }
+      }
+
+      prevIndex = upper;
+      prevBound = bound;
+    }
+
+    // Nothing to say except the version means that all ranges are settled.
+    const settled = output.length <= 1 && this.initiator;
+    return {
+      output: settled ? null : bytesToHex(concatBytes(...output)),
+      have,
+      need,
+    };
+  }
+
+  /**
+   * Describe items in `[lower, upper)` by the id list if they are few,
+   * or by fingerprints of buckets otherwise.
+   */
+  private splitRange(
+    lower: number,
+    upper: number,
+    upperBound: Bound,
+    output: Uint8Array[]
+  ) {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      output.push(
+        this.encodeBound(upperBound),
+        encodeVarint(Mode.IdList),
+        encodeVarint(count),
+        ...this.items.slice(lower, upper).map(({ id }) => id)
+      );
+      return;
+    }
+
+    const itemsPerBucket = Math.floor(count / BUCKETS);
+    const bucketsWithExtra = count % BUCKETS;
+    let current = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const bucketSize = itemsPerBucket + (i < bucketsWithExtra ? 1 : 0);
+      const fingerprint = this.fingerprint(current, current + bucketSize);
+      current += bucketSize;
+
+      const bound =
+        current === upper
+          ? upperBound
+          : getMinimalBound(this.items[current - 1], this.items[current]);
+      output.push(
+        this.encodeBound(bound),
+        encodeVarint(Mode.Fingerprint),
+        fingerprint
+      );
+    }
+  }
+
+  private fingerprint(lower: number, upper: number): Uint8Array {
+    // The sum of ids as 256-bit little-endian integers.
+    const sum = new Uint8Array(ID_SIZE);
+    for (const { id } of this.items.slice(lower, upper)) {
+      let carry = 0;
+      for (let i = 0; i < ID_SIZE; i++) {
+        const digit = sum[i] + id[i] + carry;
+        sum[i] = digit & 0xff;
+        carry = digit >> 8;
+      }
+    }
+
+    return sha256(concatBytes(sum, encodeVarint(upper - lower))).subarray(
+      0,
+      FINGERPRINT_SIZE
+    );
+  }
+
+  /** Find the first index of items not less than the bound. */
+  private findLowerBound(begin: number, bound: Bound): number {
+    let low = begin;
+    let high = this.items.length;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (compareBound(this.items[mid], bound) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
+  private encodeBound({ timestamp, id }: Bound): Uint8Array {
+    // Timestamps are encoded as the difference from the previous one.
+    let encoded: number;
+    if (timestamp === INFINITY) {
+      encoded = 0;
+    } else {
+      encoded = timestamp - this.lastTimestampOut + 1;
+    }
+    this.lastTimestampOut = timestamp;
+
+    return concatBytes(encodeVarint(encoded), encodeVarint(id.length), id);
+  }
+
+  private decodeBound(reader: Reader): Bound {
+    const encoded = reader.readVarint();
+    if (encoded === 0 || this.lastTimestampIn === INFINITY) {
+      this.lastTimestampIn = INFINITY;
+    } else {
+      this.lastTimestampIn += encoded - 1;
+    }
+
+    const length = reader.readVarint();
+    if (length > ID_SIZE) {
+      throw new Error("Invalid negentropy bound.");
+    }
+
+    return { timestamp: this.lastTimestampIn, id: reader.readBytes(length) };
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  readByte(): number {
+    return this.readBytes(1)[0];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of negentropy message.");
+    }
+
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /** Read a base-128 big-endian integer. */
+  readVarint(): number {
+    let n = 0;
+    for (;;) {
+      const byte = this.readByte();
+      n = n * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return n;
+      }
+    }
+  }
+}
+
+function encodeVarint(n: number): Uint8Array {
+  const digits = [n % 128];
+  for (
+    let rest = Math.floor(n / 128);
+    rest > 0;
+    rest = Math.floor(rest / 128)
+  ) {
+    digits.unshift(rest % 128 | 0x80);
+  }
+
+  return new Uint8Array(digits);
+}
+
+function infiniteBound(): Bound {
+  return { timestamp: INFINITY, id: new Uint8Array() };
+}
+
+/** The shortest bound which separates `prev` and `next`. */
+function getMinimalBound(prev: Bound, next: Bound): Bound {
+  if (prev.timestamp !== next.timestamp) {
+    return { timestamp: next.timestamp, id: new Uint8Array() };
+  }
+
+  let shared = 0;
+  while (shared < ID_SIZE && prev.id[shared] === next.id[shared]) {
+    shared++;
+  }
+  return { timestamp: next.timestamp, id: next.id.subarray(0, shared + 1) };
+}
+
+function compareBound(a: Bound, b: Bound): number {
+  return a.timestamp !== b.timestamp
+    ? a.timestamp - b.timestamp
+    : compareBytes(a.id, b.id);
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
@@ -48,6 +48,7 @@ export namespace Nostr {
     Zap = 9735,
     RelayList = 10002,
     Auth = 22242,
+    NostrConnect = 24133,
     BadgeDefinition = 30008,
     ProfileBadge = 30009,
     Article = 30023
@@ -66,24 +67,58 @@ export namespace Nostr {
   }
 
   export namespace OutgoingMessage {
-    export type Any = REQ | CLOSE | EVENT | AUTH;
+    export type Any =
+      | REQ
+      | CLOSE
+      | EVENT
+      | AUTH
+      | COUNT
+      | NEG_OPEN
+      | NEG_MSG
+      | NEG_CLOSE;
     export type REQ = [type: "REQ", subId: string, ...filters: Filter[]];
     export type CLOSE = [type: "CLOSE", subId: string];
     export type EVENT = [type: "EVENT", event: Event];
     export type AUTH = [type: "AUTH", event: Event<Kind.Auth>];
+    export type COUNT = [type: "COUNT", subId: string, ...filters: Filter[]];
+    export type NEG_OPEN = [
+      type: "NEG-OPEN",
+      subId: string,
+      filter: Filter,
+      initialMessage: string
+    ];
+    export type NEG_MSG = [type: "NEG-MSG", subId: string, message: string];
+    export type NEG_CLOSE = [type: "NEG-CLOSE", subId: string];
   }
 
   export namespace IncomingMessage {
-    export type Any = EVENT | EOSE | OK | AUTH;
+    export type Any =
+      | EVENT
+      | EOSE
+      | OK
+      | AUTH
+      | NOTICE
+      | CLOSED
+      | COUNT
+      | NEG_MSG
+      | NEG_ERR;
     export type EVENT = [type: "EVENT", subId: string, event: Event];
     export type EOSE = [type: "EOSE", subId: string];
     export type OK = [
       type: "OK",
       eventId: string,
-      rejected: boolean,
+      accepted: boolean,
       message?: string
     ];
     export type AUTH = [type: "AUTH", challengeMessage: string];
     export type NOTICE = [type: "NOTICE", message: string];
+    export type CLOSED = [type: "CLOSED", subId: string, message: string];
+    export type COUNT = [
+      type: "COUNT",
+      subId: string,
+      payload: { count: number; approximate?: boolean }
+    ];
+    export type NEG_MSG = [type: "NEG-MSG", subId: string, message: string];
+    export type NEG_ERR = [type: "NEG-ERR", subId: string, reason: string];
   }
 }
@@ -0,0 +1,144 @@
+import { ensureRequiredFields, getEventHash } from "./event.js";
+import { Nostr } from "./primitive.js";
+
+/**
+ * - `"invalid-json"`: The frame is not JSON.
+ * - `"invalid-message"`: The type, arity or types of elements are wrong.
+ * - `"invalid-event"`: The event lacks required fields or has malformed ones.
+ * - `"id-mismatch"`: The event id is not the hash of the event.
+ */
+export type InvalidMessageReason =
+  | "invalid-json"
+  | "invalid-message"
+  | "invalid-event"
+  | "id-mismatch";
+
+/**
+ * An error reported to `createAllErrorObservable()`
+ * when a relay sends a message which doesn't pass validation.
+ */
+export class InvalidMessageError extends Error {
+  override name = "InvalidMessageError";
+
+  constructor(
+    public reason: InvalidMessageReason,
+    /** The raw frame, or the parsed message if it's JSON. */
+    public data: unknown,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isBoolean = (v: unknown): v is boolean => typeof v === "boolean";
+
+/**
+ * Acceptable arities and element validators of each message type.
+ * Validators are applied to elements after the type.
+ */
+const messageShapes: Record<
+  Nostr.IncomingMessage.Any[0],
+  { arity: number[]; elements: ((v: unknown) => boolean)[] }
+> = {
+  EVENT: { arity: [3], elements: [isString, isObject] },
+  EOSE: { arity: [2], elements: [isString] },
+  OK: { arity: [3, 4], elements: [isHex(64), isBoolean, isString] },
+  AUTH: { arity: [2], elements: [isString] },
+  NOTICE: { arity: [2], elements: [isString] },
+  CLOSED: { arity: [3], elements: [isString, isString] },
+  COUNT: { arity: [3], elements: [isString, isCountPayload] },
+  "NEG-MSG": { arity: [3], elements: [isString, isString] },
+  "NEG-ERR": { arity: [3], elements: [isString, isString] },
+};
+
+/**
+ * Validate a message from a relay strictly.
+ * An InvalidMessageError is thrown if it's invalid.
+ */
+export function validateIncomingMessage(
+  message: unknown
+): Nostr.IncomingMessage.Any {
+  if (!Array.isArray(message) || !isString(message[0])) {
+    throw new InvalidMessageError(
+      "invalid-message",
+      message,
+      "The message is not an array starting with its type."
+    );
+  }
+
+  const [type, ...elements] = message;
+  const shape = messageShapes[type as Nostr.IncomingMessage.Any[0]];
+  if (!shape) {
+    throw new InvalidMessageError(
+      "invalid-message",
+      message,
+      `Unknown message type: ${type}`
+    );
+  }
+  if (!shape.arity.includes(message.length)) {
+    throw new InvalidMessageError(
+      "invalid-message",
+      message,
+      `${type} message has wrong number of elements: ${message.length}`
+    );
+  }
+  elements.forEach((element, i) => {
+    if (!shape.elements[i](element)) {
+      throw new InvalidMessageError(
+        "invalid-message",
+        message,
+        `${type} message has a malformed element at ${i + 1}.`
+      );
+    }
+  });
+
+  if (type === "EVENT") {
+    validateEvent(message[2], message);
+  }
+
+  return message as Nostr.IncomingMessage.Any;
+}
+
+function validateEvent(event: Nostr.Event, message: unknown) {
+  if (
+    !ensureRequiredFields(event) ||
+    !Number.isInteger(event.kind) ||
+    !isHex(64)(event.id) ||
+    !isHex(128)(event.sig)
+  ) {
+    throw new InvalidMessageError(
+      "invalid-event",
+      message,
+      "The event has missing or malformed fields."
+    );
+  }
+  if (getEventHash(event) !== event.id) {
+    throw new InvalidMessageError(
+      "id-mismatch",
+      message,
+      `The event id doesn't match its hash: ${event.id}`
+    );
+  }
+}
+
+function isObject(v: unknown): boolean {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isHex(length: number) {
+  const pattern = new RegExp(`^[a-f0-9]{${length}}$`);
+  return (v: unknown): boolean => isString(v) && pattern.test(v);
+}
+
+function isCountPayload(v: unknown): boolean {
+  if (!isObject(v)) {
+    return false;
+  }
+
+  const { count, approximate } = v as Record<string, unknown>;
+  return (
+    typeof count === "number" &&
+    (approximate === undefined || isBoolean(approximate))
+  );
+}
@@ -1,9 +1,12 @@
 import {
   catchError,
+  concatMap,
+  defer,
   distinct,
   distinctUntilChanged,
   EMPTY,
   filter,
+  from,
   groupBy,
   map,
   mergeAll,
@@ -19,8 +22,18 @@ import {
 } from "rxjs";
 
 import { verify as _verify } from "./nostr/event.js";
+import { isFiltered } from "./nostr/filter.js";
+import { DeletionTracker, getCoordinate, isDeletedBy } from "./nostr/nip09.js";
+import { getPow } from "./nostr/nip13.js";
 import { Nostr } from "./nostr/primitive.js";
-import { EventPacket, ReqPacket } from "./packet.js";
+import {
+  DecryptedEventPacket,
+  EventPacket,
+  ReqPacket,
+  RetractionPacket,
+} from "./packet.js";
+import type { EventSigner } from "./signer.js";
+import type { EventVerifier } from "./verifier.js";
 
 /**
  * Remove the events once seen.
@@ -60,11 +73,37 @@ export function latestEach<K>(
   return pipe(groupBy(key), map(pipe(latest())), mergeAll());
 }
 
+/**
+ * For each replaceable (`pubkey` and `kind`) or parameterized replaceable
+ * (`pubkey`, `kind` and `d` tag) event, only the latest ones are allowed to pass.
+ * Regular events pass as they are, and ephemeral events are dropped.
+ */
+export function latestReplaceable(): MonoTypeOperatorFunction<EventPacket> {
+  return pipe(
+    filter(({ event }) => !(20000 <= event.kind && event.kind < 30000)),
+    groupBy(({ event }) => getCoordinate(event)),
+    mergeMap((group$) => (group$.key === null ? group$ : group$.pipe(latest())))
+  );
+}
+
 /**
  * Only events with a valid signature are allowed to pass.
+ * If `verifier` is given, events are verified by it concurrently
+ * and issued in the order they arrived.
  */
-export function verify(): MonoTypeOperatorFunction<EventPacket> {
-  return filter<EventPacket>(({ event }) => _verify(event));
+export function verify(
+  verifier?: EventVerifier
+): MonoTypeOperatorFunction<EventPacket> {
+  if (!verifier) {
+    return filter<EventPacket>(({ event }) => _verify(event));
+  }
+
+  return pipe(
+    map((packet) => [packet, verifier.verify(packet.event)] as const),
+    concatMap(([packet, result]) =>
+      from(result).pipe(mergeMap((ok) => (ok ? of(packet) : EMPTY)))
+    )
+  );
 }
 
 /**
@@ -76,6 +115,202 @@ export function filterKind<K extends Nostr.Kind>(
   return filter<EventPacket>(({ event }) => event.kind === kind);
 }
 
+/**
+ * Only events matching at least one of the filters are allowed to pass.
+ * `limit` is not considered.
+ */
+export function filterBy(
+  filters: Nostr.Filter | Nostr.Filter[]
+): MonoTypeOperatorFunction<EventPacket> {
+  return filter<EventPacket>(({ event }) => isFiltered(event, filters));
+}
+
+/**
+ * Decrypt the content of events (NIP-04 or NIP-44) with the signer
+ * and add the plaintext to packets.
+ * The scheme is detected from the content, and events that can't be decrypted are dropped.
+ */
+export function decrypt(
+  signer: EventSigner
+): OperatorFunction<EventPacket, DecryptedEventPacket> {
+  return (source) =>
+    defer(() => {
+      let pubkey: Promise<string> | undefined;
+      const getPublicKey = () => (pubkey ??= signer.getPublicKey());
+
+      return source.pipe(
+        concatMap((packet) =>
+          from(decryptPacket(packet, getPublicKey)).pipe(
+            catchError(() => EMPTY)
+          )
+        )
+      );
+    });
+
+  async function decryptPacket(
+    packet: EventPacket,
+    getPublicKey: () => Promise<string>
+  ): Promise<DecryptedEventPacket> {
+    const { event } = packet;
+    const encryption = event.content.includes("?iv=")
+      ? signer.nip04
+      : signer.nip44;
+    if (!encryption) {
+      throw new Error("The signer doesn't support the encryption.");
+    }
+
+    // For events sent by the user, the counterparty is the recipient.
+    const pubkey = await getPublicKey();
+    const counterparty =
+      event.pubkey === pubkey
+        ? event.tags.find(([name]) => name === "p")?.[1]
+        : event.pubkey;
+    if (!counterparty) {
+      throw new Error("The counterparty is unknown.");
+    }
+
+    const plaintext = await encryption.decrypt(counterparty, event.content);
+    return { ...packet, plaintext };
+  }
+}
+
+/**
+ * Only events whose id has at least `difficulty` leading zero bits (NIP-13) are allowed to pass.
+ */
+export function minPow(
+  difficulty: number
+): MonoTypeOperatorFunction<EventPacket> {
+  return filter<EventPacket>(({ event }) => getPow(event.id) >= difficulty);
+}
+
+/**
+ * Honor deletion events (NIP-09) on the stream.
+ * Events deleted by their author are dropped, and if they have already been issued,
+ * RetractionPackets are issued instead so that they can be removed.
+ * Deletion events themselves are consumed.
+ *
+ * Only the latest `maxRetained` issued events are remembered to be retracted,
+ * so deletions for older ones are ignored. Deletion events are all remembered.
+ */
+export function retractDeleted(
+  maxRetained = 10000
+): OperatorFunction<EventPacket, EventPacket | RetractionPacket> {
+  return (source) =>
+    defer(() => {
+      const tracker = new DeletionTracker();
+      const issued = new IssuedPackets(maxRetained);
+
+      return source.pipe(
+        mergeMap((packet): ObservableInput<EventPacket | RetractionPacket> => {
+          const { event } = packet;
+          if (event.kind !== Nostr.Kind.EventDeletion) {
+            if (tracker.isDeleted(event)) {
+              return EMPTY;
+            }
+            issued.add(packet);
+            return of(packet);
+          }
+
+          tracker.add(event);
+          return issued.takeDeletedBy(event).map(
+            (retracted): RetractionPacket => ({
+              from: packet.from,
+              subId: packet.subId,
+              deletion: event,
+              retracted,
+            })
+          );
+        })
+      );
+    });
+}
+
+/**
+ * Issued packets indexed by `<pubkey>:<id>` and by coordinate,
+ * which forgets the oldest one beyond the capacity.
+ */
+class IssuedPackets {
+  /** Packets in the order of issue. */
+  private byId: Map<string, EventPacket> = new Map();
+  /** Keys of `byId` for each coordinate of replaceable events. */
+  private byCoordinate: Map<string, Set<string>> = new Map();
+
+  constructor(private capacity: number) {}
+
+  add(packet: EventPacket) {
+    const key = getIdKey(packet.event.pubkey, packet.event.id);
+    this.delete(key);
+    this.byId.set(key, packet);
+
+    const coordinate = getCoordinate(packet.event);
+    if (coordinate) {
+      const keys = this.byCoordinate.get(coordinate) ?? new Set();
+      keys.add(key);
+      this.byCoordinate.set(coordinate, keys);
+    }
+
+    if (this.byId.size > this.capacity) {
+      const oldest = this.byId.keys().next();
+      if (!oldest.done) {
+        this.delete(oldest.value);
+      }
+    }
+  }
+
+  /** Forget and return packets deleted by the deletion event. */
+  takeDeletedBy(deletion: Nostr.Event): EventPacket[] {
+    const keys = new Set<string>();
+    for (const [name, value] of deletion.tags) {
+      if (name === "e" && value) {
+        keys.add(getIdKey(deletion.pubkey, value));
+      }
+      if (name === "a" && value) {
+        for (const key of this.byCoordinate.get(value) ?? []) {
+          keys.add(key);
+        }
+      }
+    }
+
+    const deleted: EventPacket[] = [];
+    for (const key of keys) {
+      const packet = this.byId.get(key);
+      if (packet && isDeletedBy(packet.event, deletion)) {
+        this.delete(key);
+        deleted.push(packet);
+      }
+    }
+    return deleted;
+  }
+
+  private delete(key: string) {
+    const packet = this.byId.get(key);
+    if (!packet) {
+      return;
+    }
+
+    this.byId.delete(key);
+    const coordinate = getCoordinate(packet.event);
+    const keys = coordinate ? this.byCoordinate.get(coordinate) : undefined;
+    keys?.delete(key);
+    if (coordinate && keys?.size === 0) {
+      this.byCoordinate.delete(coordinate);
+    }
+  }
+}
+
+function getIdKey(pubkey: string, id: string): string {
+  return `${pubkey}:${id}`;
+}
+
+/**
+ * Type guard to distinguish RetractionPackets issued by `retractDeleted()`.
+ */
+export function isRetraction(
+  packet: EventPacket | RetractionPacket
+): packet is RetractionPacket {
+  return "retracted" in packet;
+}
+
 export type MergeFilter = (
   a: Nostr.Filter[],
   b: Nostr.Filter[]
@@ -0,0 +1,172 @@
+import normalizeUrl from "normalize-url";
+
+import { Nostr } from "./nostr/primitive.js";
+
+/**
+ * Relays a user declares in kind 10002 event (NIP-65).
+ * The user publishes events to `write` relays and reads mentions from `read` relays.
+ */
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+/**
+ * Parse `r` tags of kind 10002 event.
+ * A relay without marker is regarded as both read and write.
+ */
+export function parseRelayList(event: Nostr.Event): RelayList {
+  const read: string[] = [];
+  const write: string[] = [];
+
+  for (const [name, url, marker] of event.tags) {
+    if (name !== "r" || !url) {
+      continue;
+    }
+
+    let normalized: string;
+    try {
+      normalized = normalizeUrl(url, { normalizeProtocol: false });
+    } catch {
+      continue;
+    }
+
+    if (marker !== "write" && !read.includes(normalized)) {
+      read.push(normalized);
+    }
+    if (marker !== "read" && !write.includes(normalized)) {
+      write.push(normalized);
+    }
+  }
+
+  return { read, write };
+}
+
+export interface OutboxOptions {
+  /**
+   * The maximum number of write relays to be used per author.
+   * If omitted, all of them are used.
+   */
+  maxRelaysPerAuthor?: number;
+}
+
+/**
+ * Caches relay lists of users and decides which relays to use for them.
+ */
+export class OutboxRouter {
+  private events: Map<string, Nostr.Event> = new Map();
+  private fetching: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private options: OutboxOptions,
+    private fetchRelayLists: (pubkeys: string[]) => Promise<Nostr.Event[]>
+  ) {}
+
+  /** Keep the relay list if it's newer than the cached one. */
+  put(event: Nostr.Event) {
+    if (event.kind !== Nostr.Kind.RelayList) {
+      return;
+    }
+
+    const cached = this.events.get(event.pubkey);
+    if (!cached || cached.created_at < event.created_at) {
+      this.events.set(event.pubkey, event);
+    }
+  }
+
+  /**
+   * Split filters so that each relay receives only the authors who write there.
+   * Filters without `authors` and authors whose relay list is unknown
+   * are routed to `fallbackUrls`.
+   */
+  async route(
+    filters: Nostr.Filter[],
+    fallbackUrls: string[]
+  ): Promise<Map<string, Nostr.Filter[]>> {
+    const authors = filters.flatMap((filter) => filter.authors ?? []);
+    await this.load(authors);
+
+    const routes = new Map<string, Nostr.Filter[]>();
+    const addRoute = (url: string, filter: Nostr.Filter) => {
+      routes.set(url, [...(routes.get(url) ?? []), filter]);
+    };
+
+    for (const filter of filters) {
+      if (!filter.authors) {
+        for (const url of fallbackUrls) {
+          addRoute(url, filter);
+        }
+        continue;
+      }
+
+      const authorsByUrl = new Map<string, string[]>();
+      for (const author of filter.authors) {
+        const write = this.getRelayList(author)?.write ?? [];
+        const urls = (write.length > 0 ? write : fallbackUrls).slice(
+          0,
+          this.options.maxRelaysPerAuthor
+        );
+        for (const url of urls) {
+          authorsByUrl.set(url, [...(authorsByUrl.get(url) ?? []), author]);
+        }
+      }
+      for (const [url, authors] of authorsByUrl) {
+        addRoute(url, { ...filter, authors });
+      }
+    }
+
+    return routes;
+  }
+
+  /** Return read relays of the users, which they expect to receive mentions. */
+  async getInboxUrls(pubkeys: string[]): Promise<string[]> {
+    await this.load(pubkeys);
+
+    return Array.from(
+      new Set(
+        pubkeys.flatMap((pubkey) => this.getRelayList(pubkey)?.read ?? [])
+      )
+    );
+  }
+
+  private getRelayList(pubkey: string): RelayList | null {
+    const event = this.events.get(pubkey);
+    return event ? parseRelayList(event) : null;
+  }
+
+  /**
+   * Fetch relay lists of the users which are unknown and not being fetched.
+   * Users whose relay list isn't found will be fetched again next time.
+   */
+  private async load(pubkeys: string[]): Promise<void> {
+    const missing = Array.from(new Set(pubkeys)).filter(
+      (pubkey) => !this.events.has(pubkey) && !this.fetching.has(pubkey)
+    );
+
+    if (missing.length > 0) {
+      const fetching = this.fetchRelayLists(missing)
+        .then(
+          (events) => {
+            for (const event of events) {
+              this.put(event);
+            }
+          },
+          () => {
+            // Fall back to the default relays.
+          }
+        )
+        .finally(() => {
+          for (const pubkey of missing) {
+            this.fetching.delete(pubkey);
+          }
+        });
+      for (const pubkey of missing) {
+        this.fetching.set(pubkey, fetching);
+      }
+    }
+
+    await Promise.all(
+      pubkeys.flatMap((pubkey) => this.fetching.get(pubkey) ?? [])
+    );
+  }
+}
@@ -17,6 +17,25 @@ export interface EventPacket {
   event: Nostr.Event;
 }
 
+/**
+ * EventPacket whose content has been decrypted by `decrypt()` operator.
+ */
+export interface DecryptedEventPacket extends EventPacket {
+  plaintext: string;
+}
+
+/**
+ * Packets to notify that an event already issued has been deleted (NIP-09).
+ */
+export interface RetractionPacket {
+  from: string;
+  subId: string;
+  /** The deletion event (kind 5). */
+  deletion: Nostr.Event;
+  /** The packet which had been issued and is now deleted. */
+  retracted: EventPacket;
+}
+
 /**
  * Packets from websocket that represents an error.
  */
@@ -33,6 +52,25 @@ export interface MessagePacket {
   message: Nostr.IncomingMessage.Any;
 }
 
+/**
+ * Packets from websocket that represents a NOTICE.
+ */
+export interface NoticePacket {
+  from: string;
+  notice: string;
+}
+
+/**
+ * Packets from websocket that represents a COUNT (NIP-45) for the request by `count()`.
+ */
+export interface CountPacket {
+  from: string;
+  subId: string;
+  count: number;
+  /** True if the relay reports that the count is an estimate. */
+  approximate?: boolean;
+}
+
 export interface ConnectionStatePacket {
   from: string;
   state: ConnectionState;
@@ -46,7 +84,28 @@ export type ConnectionState =
   | "error" // Inactive because of an error. You can try to recover by reconnect()
   | "terminated";
 
+/**
+ * Packets from websocket that represents an OK for the EVENT sent by `send()`.
+ */
 export interface OkPacket {
   from: string;
   id: string;
+  /** Whether the relay accepted the event or not. */
+  ok: boolean;
+  /** The human-readable message that the relay attached. */
+  notice?: string;
+  /** The machine-readable prefix of `notice`, if it is a known one. */
+  prefix?: OkPacketPrefix;
+  /** True if the relay didn't respond in time. `ok` is always false in this case. */
+  timeout?: boolean;
 }
+
+export type OkPacketPrefix =
+  | "duplicate"
+  | "pow"
+  | "blocked"
+  | "rate-limited"
+  | "invalid"
+  | "error"
+  | "auth-required"
+  | "restricted";
@@ -0,0 +1,232 @@
+import {
+  BehaviorSubject,
+  filter,
+  Observable,
+  Subject,
+  Subscription,
+} from "rxjs";
+
+import type { RxNostr } from "./index.js";
+import { isFiltered } from "./nostr/filter.js";
+import { Nostr } from "./nostr/primitive.js";
+import type { EventPacket } from "./packet.js";
+import { createRxOneshotReq } from "./req.js";
+
+export interface PaginateOptions {
+  /** The number of events requested per page from each relay. */
+  pageSize: number;
+  /**
+   * The relays to load history from.
+   * If omitted, readable relays at the time of `paginate()` are used.
+   */
+  relays?: string[];
+}
+
+/**
+ * Loads history page by page from each relay.
+ */
+export interface Paginator {
+  /**
+   * Issues events of all pages loaded by `loadMore()`.
+   * Events received from multiple relays are issued only once.
+   */
+  getEventObservable(): Observable<EventPacket>;
+  /**
+   * Issues whether each relay may have more events every time it changes.
+   */
+  getHasMoreObservable(): Observable<Record<string, boolean>>;
+  /** Whether each relay may have more events. */
+  hasMore(): Record<string, boolean>;
+  /**
+   * Request the next page from each relay which may have more events.
+   * Relays still loading the previous page are skipped.
+   */
+  loadMore(): void;
+  dispose(): void;
+}
+
+/**
+ * Create a Paginator which loads events older than those loaded before.
+ * `until` is tracked for each filter on each relay, and a filter is regarded as exhausted
+ * when the relay returns fewer events for it than `pageSize` (or `max_limit` of the relay
+ * if it's smaller) and then EOSE. Timeout or CLOSED doesn't exhaust the relay.
+ */
+export function paginate(
+  rxNostr: RxNostr,
+  filters: Nostr.Filter[],
+  options: PaginateOptions
+): Paginator {
+  return new RxPaginator(rxNostr, filters, options);
+}
+
+interface RelayPage {
+  /** The state of each filter, in the same order as the filters. */
+  filters: FilterPage[];
+  loading: Subscription | null;
+}
+
+interface FilterPage {
+  until: number | undefined;
+  hasMore: boolean;
+  /**
+   * Ids of events at `until` which this relay has already returned for this filter.
+   * They are requested again because `until` is inclusive.
+   */
+  idsAtUntil: Set<string>;
+}
+
+class RxPaginator implements Paginator {
+  private pages: Map<string, RelayPage> = new Map();
+  private seen: Set<string> = new Set();
+  private event$: Subject<EventPacket> = new Subject();
+  private hasMore$: BehaviorSubject<Record<string, boolean>>;
+
+  constructor(
+    private rxNostr: RxNostr,
+    private filters: Nostr.Filter[],
+    private options: PaginateOptions
+  ) {
+    const urls =
+      options.relays ??
+      rxNostr
+        .getRelays()
+        .filter(({ read }) => read)
+        .map(({ url }) => url);
+    for (const url of urls) {
+      this.pages.set(url, {
+        filters: filters.map(() => ({
+          until: undefined,
+          hasMore: true,
+          idsAtUntil: new Set(),
+        })),
+        loading: null,
+      });
+    }
+
+    this.hasMore$ = new BehaviorSubject(this.hasMore());
+  }
+
+  getEventObservable(): Observable<EventPacket> {
+    return this.event$.asObservable();
+  }
+  getHasMoreObservable(): Observable<Record<string, boolean>> {
+    return this.hasMore$.asObservable();
+  }
+  hasMore(): Record<string, boolean> {
+    return Object.fromEntries(
+      Array.from(this.pages, ([url, page]) => [url, hasMore(page)])
+    );
+  }
+
+  loadMore(): void {
+    for (const [url, page] of this.pages) {
+      if (hasMore(page) && !page.loading) {
+        this.loadPage(url, page);
+      }
+    }
+  }
+
+  dispose(): void {
+    for (const page of this.pages.values()) {
+      page.loading?.unsubscribe();
+    }
+    this.event$.complete();
+    this.hasMore$.complete();
+  }
+
+  private loadPage(url: string, page: RelayPage) {
+    const { pageSize } = this.options;
+    const targets = this.filters
+      .map((filter, i) => ({ filter, state: page.filters[i] }))
+      .filter(({ state }) => state.hasMore);
+    const rxReq = createRxOneshotReq({
+      filters: targets.map(({ filter, state }) => ({
+        ...filter,
+        limit: pageSize,
+        ...(state.until !== undefined ? { until: state.until } : {}),
+      })),
+    });
+    // A oneshot REQ is sent with this subId.
+    const subId = `${rxReq.rxReqId}:0`;
+
+    const counts = targets.map(() => ({
+      total: 0,
+      fresh: 0,
+      oldest: Infinity,
+      idsAtOldest: new Set<string>(),
+    }));
+    let eosed = false;
+
+    const eose = this.rxNostr
+      .createAllMessageObservable()
+      .pipe(
+        filter(
+          ({ from, message }) =>
+            from === url && message[0] === "EOSE" && message[1] === subId
+        )
+      )
+      .subscribe(() => {
+        eosed = true;
+      });
+    const subscription = this.rxNostr.use(rxReq, { relays: [url] }).subscribe({
+      next: (packet) => {
+        const { event } = packet;
+        targets.forEach(({ filter, state }, i) => {
+          if (!isFiltered(event, filter)) {
+            return;
+          }
+
+          const count = counts[i];
+          count.total++;
+          // Whether it's new to this relay and filter, regardless of other relays.
+          count.fresh += state.idsAtUntil.has(event.id) ? 0 : 1;
+          if (event.created_at < count.oldest) {
+            count.oldest = event.created_at;
+            count.idsAtOldest = new Set([event.id]);
+          } else if (event.created_at === count.oldest) {
+            count.idsAtOldest.add(event.id);
+          }
+        });
+        if (!this.seen.has(event.id)) {
+          this.seen.add(event.id);
+          this.event$.next(packet);
+        }
+      },
+      complete: () => {
+        page.loading = null;
+        eose.unsubscribe();
+
+        // The relay may clamp `limit` to its `max_limit`.
+        const limit = Math.min(
+          pageSize,
+          this.rxNostr.getRelayInfo(url)?.limitation?.max_limit ?? Infinity
+        );
+        targets.forEach(({ state }, i) => {
+          const { total, fresh, oldest, idsAtOldest } = counts[i];
+          if (eosed && total < limit) {
+            state.hasMore = false;
+          } else if (fresh > 0) {
+            state.idsAtUntil =
+              oldest === state.until
+                ? new Set([...state.idsAtUntil, ...idsAtOldest])
+                : idsAtOldest;
+            state.until = oldest;
+          } else if (total > 0) {
+            // The whole page is at the same second as the previous one,
+            // so move on to avoid receiving the same events forever.
+            state.idsAtUntil = new Set();
+            state.until = oldest - 1;
+          }
+        });
+        this.hasMore$.next(this.hasMore());
+      },
+    });
+    subscription.add(eose);
+    // It may have completed synchronously.
+    page.loading = subscription.closed ? null : subscription;
+  }
+}
+
+function hasMore(page: RelayPage): boolean {
+  return page.filters.some(({ hasMore }) => hasMore);
+}
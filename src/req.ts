@@ -1,7 +1,15 @@
-import { BehaviorSubject, Observable, OperatorFunction } from "rxjs";
+import {
+  BehaviorSubject,
+  EMPTY,
+  filter,
+  Observable,
+  OperatorFunction,
+  Subject,
+} from "rxjs";
 
+import { isFiltered } from "./nostr/filter.js";
 import { Nostr } from "./nostr/primitive.js";
-import { ReqPacket } from "./packet.js";
+import { EventPacket, ReqPacket } from "./packet.js";
 import type { Override } from "./util.js";
 
 /**
@@ -14,6 +22,11 @@ export interface RxReq<S extends RxReqStrategy = RxReqStrategy> {
   get rxReqId(): string;
   /** Get an Observable of ReqPacket. */
   getReqObservable(): Observable<ReqPacket>;
+  /**
+   * Receive EventPackets issued by `use()` with this RxReq,
+   * so that each Observable returned by `emit()` can pick its own events.
+   */
+  handleEvent?(packet: EventPacket): void;
 
   /**
    * Returns itself overriding only `getReqObservable()`.
@@ -51,12 +64,21 @@ export type RxReqStrategy = "forward" | "backward" | "oneshot";
  * The RxReq interface that is provided for users (not for RxNostr).
  */
 export interface RxReqController {
-  /** Start new REQ or stop REQ on the RxNostr with witch the RxReq is associated. */
-  emit(filters: Nostr.Filter[] | null): void;
+  /**
+   * Start new REQ or stop REQ on the RxNostr with witch the RxReq is associated.
+   *
+   * The returned Observable issues only events matching the emitted filters
+   * out of events issued by `use()` with the RxReq.
+   * Even if filters of several emissions are merged into one REQ by `batch()`,
+   * each caller can receive its own events from it.
+   * It never completes, so unsubscribe it when it's no longer needed.
+   */
+  emit(filters: Nostr.Filter[] | null): Observable<EventPacket>;
 }
 
 abstract class RxReqBase implements RxReq {
   protected filters$ = new BehaviorSubject<ReqPacket>(null);
+  protected events$ = new Subject<EventPacket>();
   private _rxReqId: string;
 
   abstract get strategy(): RxReqStrategy;
@@ -72,13 +94,21 @@ abstract class RxReqBase implements RxReq {
     return this.filters$.asObservable();
   }
 
-  emit(filters: Nostr.Filter[] | null) {
+  handleEvent(packet: EventPacket) {
+    this.events$.next(packet);
+  }
+
+  emit(filters: Nostr.Filter[] | null): Observable<EventPacket> {
     const normalized = normalizeFilters(filters);
 
     if (normalized) {
       this.filters$.next(normalized);
+      return this.events$.pipe(
+        filter(({ event }) => isFiltered(event, normalized))
+      );
     } else {
       this.filters$.next(null);
+      return EMPTY;
     }
   }
 
@@ -120,6 +150,7 @@ abstract class RxReqBase implements RxReq {
       },
       getReqObservable: () =>
         this.getReqObservable().pipe(...(operators as [])),
+      handleEvent: (packet) => this.handleEvent(packet),
     };
   }
 }
@@ -0,0 +1,335 @@
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex, randomBytes } from "@noble/hashes/utils";
+import {
+  EMPTY,
+  filter,
+  firstValueFrom,
+  mergeMap,
+  of,
+  Subject,
+  Subscription,
+  timeout,
+} from "rxjs";
+
+import type { RxNostr } from "./index.js";
+import { toHex } from "./nostr/bech32.js";
+import {
+  createEventByNip07,
+  createEventBySecretKey,
+  getCreatedAt,
+  getEventHash,
+  getPublicKey,
+  verify,
+} from "./nostr/event.js";
+import { decryptNip04, encryptNip04 } from "./nostr/nip04.js";
+import { decryptNip44, encryptNip44 } from "./nostr/nip44.js";
+import { Nostr } from "./nostr/primitive.js";
+import { createRxForwardReq } from "./req.js";
+
+/**
+ * An object that signs events on behalf of a user.
+ * RxNostr uses it to sign events to be sent and AUTH events.
+ */
+export interface EventSigner {
+  getPublicKey(): Promise<string>;
+  signEvent<K extends number>(
+    params: Nostr.EventParameters<K>
+  ): Promise<Nostr.Event<K>>;
+  nip04?: EventEncryption;
+  nip44?: EventEncryption;
+}
+
+export interface EventEncryption {
+  encrypt(pubkey: string, plaintext: string): Promise<string>;
+  decrypt(pubkey: string, ciphertext: string): Promise<string>;
+}
+
+/**
+ * Create a signer with the given secret key.
+ * It accepts both nsec format and hex format.
+ */
+export function seckeySigner(seckey: string): EventSigner {
+  const sechex = seckey.startsWith("nsec1") ? toHex(seckey) : seckey;
+
+  return {
+    async getPublicKey() {
+      return getPublicKey(sechex);
+    },
+    async signEvent(params) {
+      return createEventBySecretKey(params, sechex);
+    },
+    nip04: {
+      async encrypt(pubkey, plaintext) {
+        return encryptNip04(sechex, pubkey, plaintext);
+      },
+      async decrypt(pubkey, ciphertext) {
+        return decryptNip04(sechex, pubkey, ciphertext);
+      },
+    },
+    nip44: {
+      async encrypt(pubkey, plaintext) {
+        return encryptNip44(sechex, pubkey, plaintext);
+      },
+      async decrypt(pubkey, ciphertext) {
+        return decryptNip44(sechex, pubkey, ciphertext);
+      },
+    },
+  };
+}
+
+/**
+ * Create a signer which delegates to the NIP-07 interface, i.e. `window.nostr`.
+ */
+export function nip07Signer(): EventSigner {
+  return {
+    async getPublicKey() {
+      return getNip07().getPublicKey();
+    },
+    async signEvent(params) {
+      return createEventByNip07(params);
+    },
+    nip04: {
+      async encrypt(pubkey, plaintext) {
+        return getNip07Encryption("nip04").encrypt(pubkey, plaintext);
+      },
+      async decrypt(pubkey, ciphertext) {
+        return getNip07Encryption("nip04").decrypt(pubkey, ciphertext);
+      },
+    },
+    nip44: {
+      async encrypt(pubkey, plaintext) {
+        return getNip07Encryption("nip44").encrypt(pubkey, plaintext);
+      },
+      async decrypt(pubkey, ciphertext) {
+        return getNip07Encryption("nip44").decrypt(pubkey, ciphertext);
+      },
+    },
+  };
+
+  function getNip07() {
+    const nostr = (window ?? {})?.nostr;
+    if (!nostr) {
+      throw new Error("NIP-07 interface is not ready.");
+    }
+    return nostr;
+  }
+  function getNip07Encryption(nip: "nip04" | "nip44") {
+    const encryption = getNip07()[nip];
+    if (!encryption) {
+      throw new Error(`NIP-07 interface doesn't support ${nip}.`);
+    }
+    return encryption;
+  }
+}
+
+export interface Nip46SignerConfig {
+  /**
+   * The connection token provided by the remote signer,
+   * such as `bunker://<remote-pubkey>?relay=wss://...&secret=...`.
+   */
+  bunker: string;
+  /**
+   * The secret key for this client to communicate with the remote signer.
+   * If omitted, a random key is generated.
+   */
+  seckey?: string;
+  /** The time in milliseconds to wait for each response from the remote signer. */
+  timeout?: number;
+  /**
+   * RxNostr used to communicate with the remote signer on the relays of `bunker`,
+   * e.g. `createRxNostr()`. Its default relays don't have to include them.
+   * It shouldn't use this signer for AUTH, or AUTH waits for itself.
+   */
+  rxNostr: RxNostr;
+}
+
+/**
+ * Create a signer which delegates to a remote signer (NIP-46).
+ * Call `dispose()` to stop listening to the remote signer.
+ * `rxNostr` is not disposed by it.
+ */
+export function nip46Signer(
+  config: Nip46SignerConfig
+): EventSigner & { dispose(): void } {
+  return new Nip46Signer(config);
+}
+
+interface Nip46Response {
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+class Nip46Signer implements EventSigner {
+  private remotePubkey: string;
+  private secret: string | null;
+  private seckey: string;
+  private local: EventSigner;
+  private timeout: number;
+  private rxNostr: RxNostr;
+  private relays: string[];
+  private response$ = new Subject<Nip46Response>();
+  private subscription: Subscription;
+  private connection: Promise<void> | null = null;
+  private pubkey: Promise<string> | null = null;
+
+  constructor(config: Nip46SignerConfig) {
+    const url = new URL(config.bunker);
+    if (url.protocol !== "bunker:") {
+      throw new Error("Invalid bunker URL.");
+    }
+
+    this.remotePubkey = url.hostname || url.pathname.replace(/^\/\//, "");
+    this.secret = url.searchParams.get("secret");
+    this.timeout = config.timeout ?? 30 * 1000;
+
+    const seckey =
+      config.seckey ?? bytesToHex(schnorr.utils.randomPrivateKey());
+    this.seckey = seckey.startsWith("nsec1") ? toHex(seckey) : seckey;
+    this.local = seckeySigner(this.seckey);
+
+    this.rxNostr = config.rxNostr;
+    this.relays = url.searchParams.getAll("relay");
+
+    const rxReq = createRxForwardReq();
+    this.subscription = this.rxNostr
+      .use(rxReq, { relays: this.relays })
+      .pipe(
+        filter(({ event }) => event.pubkey === this.remotePubkey),
+        mergeMap(({ event }) => {
+          try {
+            const plaintext = decryptNip04(
+              this.seckey,
+              this.remotePubkey,
+              event.content
+            );
+            return of<Nip46Response>(JSON.parse(plaintext));
+          } catch {
+            // Ignore broken responses.
+            return EMPTY;
+          }
+        })
+      )
+      .subscribe(this.response$);
+
+    rxReq.emit([
+      {
+        kinds: [Nostr.Kind.NostrConnect],
+        authors: [this.remotePubkey],
+        "#p": [getPublicKey(this.seckey)],
+        since: getCreatedAt(),
+      },
+    ]);
+  }
+
+  getPublicKey(): Promise<string> {
+    this.pubkey ??= this.request("get_public_key", []).catch((err) => {
+      // Allow to retry.
+      this.pubkey = null;
+      throw err;
+    });
+
+    return this.pubkey;
+  }
+
+  async signEvent<K extends number>(
+    params: Nostr.EventParameters<K>
+  ): Promise<Nostr.Event<K>> {
+    const unsigned = {
+      kind: params.kind,
+      content: params.content,
+      tags: params.tags ?? [],
+      created_at: params.created_at ?? getCreatedAt(),
+    };
+    const result = await this.request("sign_event", [JSON.stringify(unsigned)]);
+    const event: Nostr.Event<K> = JSON.parse(result);
+
+    // The remote signer must sign exactly what was requested as the user.
+    if (
+      event.pubkey !== (await this.getPublicKey()) ||
+      event.kind !== unsigned.kind ||
+      event.content !== unsigned.content ||
+      event.created_at !== unsigned.created_at ||
+      JSON.stringify(event.tags) !== JSON.stringify(unsigned.tags) ||
+      event.id !== getEventHash(event) ||
+      !verify(event)
+    ) {
+      throw new Error("NIP-46 sign_event returned an unexpected event.");
+    }
+
+    return event;
+  }
+
+  nip04: EventEncryption = {
+    encrypt: (pubkey, plaintext) =>
+      this.request("nip04_encrypt", [pubkey, plaintext]),
+    decrypt: (pubkey, ciphertext) =>
+      this.request("nip04_decrypt", [pubkey, ciphertext]),
+  };
+
+  nip44: EventEncryption = {
+    encrypt: (pubkey, plaintext) =>
+      this.request("nip44_encrypt", [pubkey, plaintext]),
+    decrypt: (pubkey, ciphertext) =>
+      this.request("nip44_decrypt", [pubkey, ciphertext]),
+  };
+
+  dispose() {
+    this.subscription.unsubscribe();
+  }
+
+  private connect(): Promise<void> {
+    this.connection ??= this.call("connect", [
+      this.remotePubkey,
+      ...(this.secret ? [this.secret] : []),
+    ]).then(
+      () => undefined,
+      (err) => {
+        // Allow to retry.
+        this.connection = null;
+        throw err;
+      }
+    );
+
+    return this.connection;
+  }
+
+  private async request(method: string, params: string[]): Promise<string> {
+    await this.connect();
+    return this.call(method, params);
+  }
+
+  private async call(method: string, params: string[]): Promise<string> {
+    const id = bytesToHex(randomBytes(16));
+    const content = encryptNip04(
+      this.seckey,
+      this.remotePubkey,
+      JSON.stringify({ id, method, params })
+    );
+
+    const response = firstValueFrom(
+      this.response$.pipe(
+        filter((response) => response.id === id),
+        timeout(this.timeout)
+      )
+    );
+
+    this.rxNostr
+      .send(
+        {
+          kind: Nostr.Kind.NostrConnect,
+          content,
+          tags: [["p", this.remotePubkey]],
+        },
+        { signer: this.local, relays: this.relays }
+      )
+      .subscribe();
+
+    const { result, error } = await response;
+    if (error || result === undefined) {
+      throw new Error(`NIP-46 ${method} failed: ${error ?? "no result"}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,197 @@
+import { isFiltered } from "./nostr/filter.js";
+import { DeletionTracker, isDeletedBy } from "./nostr/nip09.js";
+import { Nostr } from "./nostr/primitive.js";
+import { EventPacket } from "./packet.js";
+
+/**
+ * Local storage of events.
+ * When it is given to RxNostr, all events received from relays are stored
+ * after verification, and backward/oneshot REQs are answered by it first.
+ */
+export interface EventStore {
+  /** Store the event. Storing the same event twice must be ignored. */
+  put(packet: EventPacket): Promise<void>;
+  /**
+   * Return events matching at least one of the filters,
+   * in descending order of `created_at`.
+   * `limit` of each filter is respected.
+   */
+  query(filters: Nostr.Filter[]): Promise<EventPacket[]>;
+}
+
+/**
+ * Create an EventStore which holds events on memory.
+ */
+export function createMemoryEventStore(options?: {
+  /**
+   * If true, deletion events (NIP-09) remove the events they delete,
+   * and the deleted events are never stored again.
+   */
+  honorDeletion?: boolean;
+}): EventStore {
+  return new MemoryEventStore(options?.honorDeletion ?? false);
+}
+
+class MemoryEventStore implements EventStore {
+  private packets: Map<string, EventPacket> = new Map();
+  private deletions: DeletionTracker | null;
+
+  constructor(honorDeletion: boolean) {
+    this.deletions = honorDeletion ? new DeletionTracker() : null;
+  }
+
+  async put(packet: EventPacket): Promise<void> {
+    const { event } = packet;
+    if (this.packets.has(event.id) || this.deletions?.isDeleted(event)) {
+      return;
+    }
+
+    this.packets.set(event.id, packet);
+
+    if (this.deletions && event.kind === Nostr.Kind.EventDeletion) {
+      this.deletions.add(event);
+      for (const [id, { event: stored }] of this.packets) {
+        if (isDeletedBy(stored, event)) {
+          this.packets.delete(id);
+        }
+      }
+    }
+  }
+
+  async query(filters: Nostr.Filter[]): Promise<EventPacket[]> {
+    return selectPackets(
+      sortPackets(Array.from(this.packets.values())),
+      filters
+    );
+  }
+}
+
+/**
+ * Create an EventStore which persists events on IndexedDB.
+ */
+export function createIndexedDBEventStore(options?: {
+  dbName?: string;
+}): EventStore {
+  return new IndexedDBEventStore(options?.dbName ?? "rx-nostr");
+}
+
+const STORE_NAME = "events";
+const CREATED_AT_INDEX = "created_at";
+
+class IndexedDBEventStore implements EventStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor(dbName: string) {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "event.id",
+        });
+        store.createIndex(CREATED_AT_INDEX, "event.created_at");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async put(packet: EventPacket): Promise<void> {
+    const db = await this.db;
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      // `add()` fails on an existing key, which is what we want.
+      const request = tx.objectStore(STORE_NAME).add(packet);
+      request.onerror = (ev) => {
+        ev.preventDefault();
+      };
+      tx.oncomplete = () => resolve();
+      tx.onabort = () =>
+        tx.error?.name === "ConstraintError" ? resolve() : reject(tx.error);
+    });
+  }
+
+  async query(filters: Nostr.Filter[]): Promise<EventPacket[]> {
+    const db = await this.db;
+    const range = getCreatedAtRange(filters);
+
+    const packets = await new Promise<EventPacket[]>((resolve, reject) => {
+      const packets: EventPacket[] = [];
+      const request = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .index(CREATED_AT_INDEX)
+        .openCursor(range, "prev");
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(packets);
+          return;
+        }
+        const packet: EventPacket = cursor.value;
+        if (isFiltered(packet.event, filters)) {
+          packets.push(packet);
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return selectPackets(sortPackets(packets), filters);
+  }
+}
+
+function getCreatedAtRange(filters: Nostr.Filter[]): IDBKeyRange | null {
+  const sinces = filters.map((filter) => filter.since);
+  const untils = filters.map((filter) => filter.until);
+  const lower = sinces.every((e) => e !== undefined)
+    ? Math.min(...(sinces as number[]))
+    : undefined;
+  const upper = untils.every((e) => e !== undefined)
+    ? Math.max(...(untils as number[]))
+    : undefined;
+
+  if (lower !== undefined && upper !== undefined) {
+    return IDBKeyRange.bound(lower, upper);
+  } else if (lower !== undefined) {
+    return IDBKeyRange.lowerBound(lower);
+  } else if (upper !== undefined) {
+    return IDBKeyRange.upperBound(upper);
+  } else {
+    return null;
+  }
+}
+
+function sortPackets(packets: EventPacket[]): EventPacket[] {
+  return packets.sort(
+    (a, b) =>
+      b.event.created_at - a.event.created_at ||
+      (a.event.id < b.event.id ? -1 : 1)
+  );
+}
+
+/**
+ * Pick up packets matching the filters from sorted packets, respecting `limit`.
+ */
+function selectPackets(
+  sortedPackets: EventPacket[],
+  filters: Nostr.Filter[]
+): EventPacket[] {
+  const selected = new Set<EventPacket>();
+
+  for (const filter of filters) {
+    let count = 0;
+    for (const packet of sortedPackets) {
+      if (filter.limit !== undefined && count >= filter.limit) {
+        break;
+      }
+      if (isFiltered(packet.event, filter)) {
+        selected.add(packet);
+        count++;
+      }
+    }
+  }
+
+  return sortedPackets.filter((packet) => selected.has(packet));
+}
@@ -0,0 +1,70 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createRxForwardReq,
+  createRxNostr,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+} from "../index.js";
+
+const SECKEY =
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b";
+
+describe("NIP-42 AUTH", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({
+      signer: seckeySigner(SECKEY),
+      authenticator: {},
+    });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Respond to AUTH challenge and replay rejected REQ.", async () => {
+    const req = createRxForwardReq("sub");
+    rxNostr.use(req).subscribe();
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+
+    relay.send(["CLOSED", "sub:0", "auth-required: we only serve members"]);
+    relay.send(["AUTH", "challenge-string"]);
+
+    const [type, event] =
+      (await relay.nextMessage) as Nostr.OutgoingMessage.AUTH;
+    expect(type).toBe("AUTH");
+    expect(event.kind).toBe(Nostr.Kind.Auth);
+    expect(event.tags).toEqual([
+      ["relay", RELAY_URL],
+      ["challenge", "challenge-string"],
+    ]);
+
+    relay.send(["OK", event.id, true, ""]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+  });
+
+  test("Replay rejected EVENT after AUTH.", async () => {
+    rxNostr.send({ kind: 1, content: "hello" }).subscribe();
+
+    const [, sent] = (await relay.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    relay.send(["OK", sent.id, false, "auth-required: please auth"]);
+    relay.send(["AUTH", "challenge-string"]);
+
+    const [, auth] = (await relay.nextMessage) as Nostr.OutgoingMessage.AUTH;
+    relay.send(["OK", auth.id, true, ""]);
+
+    await expect(relay).toReceiveMessage(["EVENT", sent]);
+  });
+});
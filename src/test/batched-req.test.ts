@@ -0,0 +1,149 @@
+import { WS } from "jest-websocket-mock";
+import { bufferTime } from "rxjs";
+
+import {
+  batch,
+  createRxBackwardReq,
+  createRxBatchedReq,
+  createRxNostr,
+  EventPacket,
+  mergeFilters,
+  Nostr,
+  RxBatchedReq,
+  RxNostr,
+} from "../index.js";
+import { fakeEvent } from "./stub.js";
+import { asArray, sleep } from "./test-helper.js";
+
+describe("createRxBatchedReq()", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+  let batched: RxBatchedReq;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr();
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+
+    batched = createRxBatchedReq(rxNostr, { bufferTime: 50 });
+  });
+
+  afterEach(() => {
+    batched.dispose();
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Requests in a window are merged and events are routed to each.", async () => {
+    const alice = asArray(batched.emit([{ kinds: [0], authors: ["alice"] }]));
+    const bob = asArray(batched.emit([{ kinds: [0], authors: ["bob"] }]));
+
+    const [, subId, ...filters] =
+      (await relay.nextMessage) as Nostr.OutgoingMessage.REQ;
+    expect(filters).toEqual([{ kinds: [0], authors: ["alice", "bob"] }]);
+
+    const aliceEvent = fakeEvent({ id: "1", kind: 0, pubkey: "alice" });
+    const bobEvent = fakeEvent({ id: "2", kind: 0, pubkey: "bob" });
+    relay.send(["EVENT", subId, aliceEvent]);
+    relay.send(["EVENT", subId, bobEvent]);
+    relay.send(["EOSE", subId]);
+
+    expect((await alice).map(({ event }) => event)).toEqual([aliceEvent]);
+    expect((await bob).map(({ event }) => event)).toEqual([bobEvent]);
+  });
+
+  test("Oversized filters are split into multiple REQs.", async () => {
+    batched = createRxBatchedReq(rxNostr, {
+      bufferTime: 50,
+      chunker: (filters) => filters.map((filter) => [filter]),
+    });
+
+    const result = asArray(
+      batched.emit([{ kinds: [0] }, { kinds: [1], limit: 10 }])
+    );
+
+    const [, subId1, ...filters1] =
+      (await relay.nextMessage) as Nostr.OutgoingMessage.REQ;
+    const [, subId2, ...filters2] =
+      (await relay.nextMessage) as Nostr.OutgoingMessage.REQ;
+    expect([filters1, filters2]).toEqual([
+      [{ kinds: [0] }],
+      [{ kinds: [1], limit: 10 }],
+    ]);
+
+    relay.send(["EOSE", subId1]);
+    relay.send(["EOSE", subId2]);
+    expect(await result).toEqual([]);
+  });
+
+  test("Requests unsubscribed before the window ends are not sent.", async () => {
+    batched
+      .emit([{ kinds: [0], authors: ["alice"] }])
+      .subscribe()
+      .unsubscribe();
+    const bob = asArray(batched.emit([{ kinds: [0], authors: ["bob"] }]));
+
+    const [, subId, ...filters] =
+      (await relay.nextMessage) as Nostr.OutgoingMessage.REQ;
+    expect(filters).toEqual([{ kinds: [0], authors: ["bob"] }]);
+
+    relay.send(["EOSE", subId]);
+    expect(await bob).toEqual([]);
+  });
+});
+
+describe("Demultiplexing by emit()", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr();
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Each emission receives only its own events from the merged REQ.", async () => {
+    const rxReq = createRxBackwardReq("sub");
+    const subscription = rxNostr
+      .use(rxReq.pipe(bufferTime(50), batch(mergeFilters)))
+      .subscribe();
+
+    const alice: EventPacket[] = [];
+    const bob: EventPacket[] = [];
+    rxReq
+      .emit([{ kinds: [0], authors: ["alice"] }])
+      .subscribe((packet) => alice.push(packet));
+    rxReq
+      .emit([{ kinds: [0], authors: ["bob"] }])
+      .subscribe((packet) => bob.push(packet));
+
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [0], authors: ["alice", "bob"] },
+    ]);
+
+    const aliceEvent = fakeEvent({ id: "1", kind: 0, pubkey: "alice" });
+    const bobEvent = fakeEvent({ id: "2", kind: 0, pubkey: "bob" });
+    relay.send(["EVENT", "sub:0", aliceEvent]);
+    relay.send(["EVENT", "sub:0", bobEvent]);
+    await sleep(10);
+
+    expect(alice.map(({ event }) => event)).toEqual([aliceEvent]);
+    expect(bob.map(({ event }) => event)).toEqual([bobEvent]);
+    expect(relay.messages).toHaveLength(1);
+
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,233 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  BackoffConfig,
+  createRxForwardReq,
+  createRxNostr,
+  createRxOneshotReq,
+  RxNostr,
+} from "../index.js";
+import { FakeWebSocket } from "./stub.js";
+import { sleep, sync } from "./test-helper.js";
+
+describe("Lazy connection strategy", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ connectionStrategy: "lazy", idleTimeout: 100 });
+    rxNostr.setRelays([RELAY_URL]);
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Connect on REQ and disconnect after idling.", async () => {
+    let connected = false;
+    relay.on("connection", () => {
+      connected = true;
+    });
+    await sleep(50);
+    expect(connected).toBe(false);
+
+    const req = createRxOneshotReq({ subId: "sub", filters: [{ kinds: [0] }] });
+    rxNostr.use(req).subscribe();
+
+    await relay.connected;
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [0] }]);
+
+    const [closeSync, resolveClose] = sync();
+    relay.on("close", () => {
+      resolveClose();
+    });
+    relay.send(["EOSE", "sub:0"]);
+    await expect(relay).toReceiveMessage(["CLOSE", "sub:0"]);
+
+    await closeSync;
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("ongoing");
+  });
+
+  test("Forward REQ is issued again with updated since after disconnection.", async () => {
+    const req = createRxForwardReq("sub");
+    rxNostr.use(req).subscribe();
+
+    req.emit([{ kinds: [1], since: 100 }]);
+    const socket = await relay.connected;
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [1], since: 100 },
+    ]);
+
+    socket.close();
+
+    const [type, subId, filter] = (await relay.nextMessage) as [
+      string,
+      string,
+      { kinds: number[]; since: number }
+    ];
+    expect([type, subId, filter.kinds]).toEqual(["REQ", "sub:0", [1]]);
+    expect(filter.since).toBeGreaterThan(100);
+  });
+});
+
+describe("Reconnection", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Reconnect with backoff and restore active REQs.", async () => {
+    rxNostr = createRxNostr({
+      retry: { strategy: "exponential", initialDelay: 50, maxCount: 3 },
+    });
+    const states: string[] = [];
+    rxNostr.createConnectionStateObservable().subscribe(({ state }) => {
+      states.push(state);
+    });
+    rxNostr.setRelays([RELAY_URL]);
+
+    const req = createRxForwardReq("sub");
+    rxNostr.use(req).subscribe();
+    req.emit([{ kinds: [1] }]);
+
+    const socket = await relay.connected;
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+
+    socket.close();
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [1], since: expect.any(Number) },
+    ]);
+    expect(states).toEqual(["starting", "ongoing", "reconnecting", "ongoing"]);
+  });
+
+  test("Reconnect if the connection is lost during count() in lazy strategy.", async () => {
+    rxNostr = createRxNostr({
+      connectionStrategy: "lazy",
+      retry: { strategy: "immediately", maxCount: 3 },
+    });
+    rxNostr.setRelays([RELAY_URL]);
+
+    rxNostr.count([{ kinds: [1] }]).subscribe();
+    const socket = await relay.connected;
+    await expect(relay).toReceiveMessage(["COUNT", "count:0", { kinds: [1] }]);
+
+    const [reconnectSync, resolveReconnect] = sync();
+    relay.on("connection", () => {
+      resolveReconnect();
+    });
+    socket.close();
+
+    await reconnectSync;
+    expect(rxNostr.getRelayState(RELAY_URL)).not.toBe("error");
+  });
+
+  test("Never reconnect if retry is off.", async () => {
+    rxNostr = createRxNostr({ retry: { strategy: "off" } });
+    rxNostr.setRelays([RELAY_URL]);
+
+    const [errorSync, resolveError] = sync();
+    rxNostr.createAllErrorObservable().subscribe(() => {
+      resolveError();
+    });
+
+    const socket = await relay.connected;
+    socket.close();
+
+    await errorSync;
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("error");
+  });
+
+  test("A number is accepted as the maximum count of retries.", async () => {
+    rxNostr = createRxNostr({ retry: 0 });
+    rxNostr.setRelays([RELAY_URL]);
+
+    const [errorSync, resolveError] = sync();
+    rxNostr.createAllErrorObservable().subscribe(() => {
+      resolveError();
+    });
+
+    const socket = await relay.connected;
+    socket.close();
+
+    await errorSync;
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("error");
+  });
+
+  test("Never reconnect following an unknown retry config.", async () => {
+    rxNostr = createRxNostr({
+      retry: { strategy: "unknown" } as unknown as BackoffConfig,
+    });
+    rxNostr.setRelays([RELAY_URL]);
+
+    const [errorSync, resolveError] = sync();
+    rxNostr.createAllErrorObservable().subscribe(() => {
+      resolveError();
+    });
+
+    const socket = await relay.connected;
+    socket.close();
+
+    await errorSync;
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("error");
+  });
+});
+
+describe("Custom WebSocket constructor", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    rxNostr = createRxNostr({
+      websocketCtor: FakeWebSocket,
+    });
+    rxNostr.setRelays([RELAY_URL]);
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+  });
+
+  test("Communicate through the given WebSocket.", async () => {
+    const req = createRxOneshotReq({ subId: "sub", filters: [{ kinds: [0] }] });
+
+    const [completeSync, resolveComplete] = sync();
+    rxNostr.use(req).subscribe({
+      complete() {
+        resolveComplete();
+      },
+    });
+    await sleep(10);
+
+    const [socket] = FakeWebSocket.instances;
+    expect(socket.url).toBe(RELAY_URL);
+    expect(socket.sent).toEqual([["REQ", "sub:0", { kinds: [0] }]]);
+
+    socket.receive(["EOSE", "sub:0"]);
+    await completeSync;
+  });
+
+  test("An error on the socket leads to reconnection.", async () => {
+    await sleep(10);
+    const [socket] = FakeWebSocket.instances;
+
+    expect(() => socket.fail()).not.toThrow();
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("reconnecting");
+  });
+});
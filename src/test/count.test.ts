@@ -0,0 +1,82 @@
+import { WS } from "jest-websocket-mock";
+
+import { createRxNostr, RxNostr } from "../index.js";
+import { asArray } from "./test-helper.js";
+
+describe("COUNT", () => {
+  const RELAY_URL1 = "ws://localhost:1234";
+  const RELAY_URL2 = "ws://localhost:1235";
+  const RELAY_URL3 = "ws://localhost:1236";
+  let rxNostr: RxNostr;
+  let relay1: WS;
+  let relay2: WS;
+  let relay3: WS;
+
+  beforeEach(async () => {
+    relay1 = new WS(RELAY_URL1, { jsonProtocol: true });
+    relay2 = new WS(RELAY_URL2, { jsonProtocol: true });
+    relay3 = new WS(RELAY_URL3, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ timeout: 500 });
+    rxNostr.setRelays([
+      RELAY_URL1,
+      RELAY_URL2,
+      { url: RELAY_URL3, read: false, write: true },
+    ]);
+    await relay1.connected;
+    await relay2.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("COUNT is sent to readable relays and each response is issued.", async () => {
+    const result = asArray(rxNostr.count([{ kinds: [3], "#p": ["x"] }]));
+
+    await expect(relay1).toReceiveMessage([
+      "COUNT",
+      "count:0",
+      { kinds: [3], "#p": ["x"] },
+    ]);
+    await expect(relay2).toReceiveMessage([
+      "COUNT",
+      "count:0",
+      { kinds: [3], "#p": ["x"] },
+    ]);
+    relay1.send(["COUNT", "count:0", { count: 42 }]);
+    relay2.send(["COUNT", "count:0", { count: 100, approximate: true }]);
+
+    expect(await result).toEqual([
+      { from: RELAY_URL1, subId: "count:0", count: 42 },
+      { from: RELAY_URL2, subId: "count:0", count: 100, approximate: true },
+    ]);
+    expect(relay3.messages).toEqual([]);
+  });
+
+  test("Relays which CLOSED or don't respond in time issue nothing.", async () => {
+    const result = asArray(rxNostr.count([{ kinds: [3] }]));
+
+    await expect(relay1).toReceiveMessage(["COUNT", "count:0", { kinds: [3] }]);
+    await expect(relay2).toReceiveMessage(["COUNT", "count:0", { kinds: [3] }]);
+    relay1.send(["CLOSED", "count:0", "unsupported: COUNT is not supported"]);
+
+    expect(await result).toEqual([]);
+  });
+
+  test("COUNT is sent only to the specified relays.", async () => {
+    const result = asArray(
+      rxNostr.count([{ kinds: [1] }], { relays: [RELAY_URL3] })
+    );
+
+    await expect(relay3).toReceiveMessage(["COUNT", "count:0", { kinds: [1] }]);
+    relay3.send(["COUNT", "count:0", { count: 1 }]);
+
+    expect(await result).toEqual([
+      { from: RELAY_URL3, subId: "count:0", count: 1 },
+    ]);
+    expect(relay1.messages).toEqual([]);
+    expect(relay2.messages).toEqual([]);
+  });
+});
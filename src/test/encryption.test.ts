@@ -0,0 +1,109 @@
+import { WS } from "jest-websocket-mock";
+import { map, of } from "rxjs";
+
+import {
+  createRxNostr,
+  decrypt,
+  decryptNip44,
+  encryptNip44,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+} from "../index.js";
+import { getPublicKey } from "../nostr/event.js";
+import { asArray } from "./test-helper.js";
+
+const alice = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+const bob = seckeySigner(
+  "5c0c523f52a5b6fad39ed2403092df8cebc36318b39383bca6c00808626fab3a"
+);
+
+describe("NIP-44", () => {
+  const SEC1 =
+    "0000000000000000000000000000000000000000000000000000000000000001";
+  const SEC2 =
+    "0000000000000000000000000000000000000000000000000000000000000002";
+  const NONCE = new Uint8Array(32);
+  NONCE[31] = 1;
+  const PAYLOAD =
+    "AgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABee0G5VSK0/9YypIObAtDKfYEAjD35uVkHyB0F4DwrcNaCXlCWZKaArsGrY6M9wnuTMxWfp1RTN9Xga8no+kF5Vsb";
+
+  test("Encryption matches the test vector.", () => {
+    expect(encryptNip44(SEC1, getPublicKey(SEC2), "a", NONCE)).toBe(PAYLOAD);
+    expect(decryptNip44(SEC2, getPublicKey(SEC1), PAYLOAD)).toBe("a");
+  });
+
+  test("Tampered payload is rejected.", () => {
+    const tampered = PAYLOAD.slice(0, -4) + "AAAA";
+    expect(() => decryptNip44(SEC2, getPublicKey(SEC1), tampered)).toThrow();
+  });
+});
+
+test("decrypt() adds plaintext for both directions.", async () => {
+  const bobPubkey = await bob.getPublicKey();
+  const alicePubkey = await alice.getPublicKey();
+
+  const toBob = await alice.signEvent({
+    kind: Nostr.Kind.EncryptedDirectMessage,
+    content: (await alice.nip04?.encrypt(bobPubkey, "hello bob")) ?? "",
+    tags: [["p", bobPubkey]],
+  });
+  const toAlice = await bob.signEvent({
+    kind: Nostr.Kind.EncryptedDirectMessage,
+    content: (await bob.nip44?.encrypt(alicePubkey, "hello alice")) ?? "",
+    tags: [["p", alicePubkey]],
+  });
+  const broken = { ...toAlice, content: "broken" };
+  const getPublicKey = jest.spyOn(alice, "getPublicKey");
+
+  const packets = await asArray(
+    of(toBob, broken, toAlice).pipe(
+      map((event) => ({ from: "", subId: "", event })),
+      decrypt(alice)
+    )
+  );
+
+  expect(packets.map(({ plaintext }) => plaintext)).toEqual([
+    "hello bob",
+    "hello alice",
+  ]);
+  expect(getPublicKey).toHaveBeenCalledTimes(1);
+  getPublicKey.mockRestore();
+});
+
+describe("send() with encryption", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ signer: alice });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Content is encrypted for the recipient.", async () => {
+    const bobPubkey = await bob.getPublicKey();
+    rxNostr
+      .send(
+        { kind: 1059, content: "secret", tags: [["p", bobPubkey]] },
+        { encryption: { pubkey: bobPubkey, scheme: "nip44" } }
+      )
+      .subscribe();
+
+    const [, event] = (await relay.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    expect(event.content).not.toBe("secret");
+    expect(
+      await bob.nip44?.decrypt(await alice.getPublicKey(), event.content)
+    ).toBe("secret");
+  });
+});
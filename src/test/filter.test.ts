@@ -0,0 +1,148 @@
+import { WS } from "jest-websocket-mock";
+
+import { createRxForwardReq, createRxNostr, RxNostr } from "../index.js";
+import { chunkFilters, isFiltered, mergeFilters } from "../nostr/filter.js";
+import { fakeEvent } from "./stub.js";
+
+describe("isFiltered()", () => {
+  const event = fakeEvent({
+    id: "abcdef",
+    kind: 1,
+    pubkey: "123456",
+    created_at: 100,
+    tags: [
+      ["e", "event-id"],
+      ["p", "pubkey-1"],
+    ],
+  });
+
+  test("ids and authors match by prefix.", () => {
+    expect(isFiltered(event, { ids: ["abc"] })).toBe(true);
+    expect(isFiltered(event, { ids: ["bcd"] })).toBe(false);
+    expect(isFiltered(event, { authors: ["123", "999"] })).toBe(true);
+    expect(isFiltered(event, { authors: ["999"] })).toBe(false);
+  });
+
+  test("since and until are inclusive.", () => {
+    expect(isFiltered(event, { since: 100, until: 100 })).toBe(true);
+    expect(isFiltered(event, { since: 101 })).toBe(false);
+    expect(isFiltered(event, { until: 99 })).toBe(false);
+  });
+
+  test("All conditions in a filter are required.", () => {
+    expect(isFiltered(event, { kinds: [1], "#p": ["pubkey-1"] })).toBe(true);
+    expect(isFiltered(event, { kinds: [1], "#p": ["pubkey-2"] })).toBe(false);
+    expect(isFiltered(event, { kinds: [0], "#e": ["event-id"] })).toBe(false);
+  });
+
+  test("Any of filters is enough.", () => {
+    expect(isFiltered(event, [{ kinds: [0] }, { "#e": ["event-id"] }])).toBe(
+      true
+    );
+    expect(isFiltered(event, [{ kinds: [0] }, { "#e": ["other"] }])).toBe(
+      false
+    );
+  });
+
+  test("limit is ignored.", () => {
+    expect(isFiltered(event, { kinds: [1], limit: 0 })).toBe(true);
+  });
+});
+
+describe("mergeFilters()", () => {
+  test("Filters differing in one field are merged by the union.", () => {
+    expect(
+      mergeFilters(
+        [{ kinds: [0], authors: ["a"] }],
+        [
+          { kinds: [0], authors: ["b", "a"] },
+          { kinds: [0], authors: ["c"] },
+        ]
+      )
+    ).toEqual([{ kinds: [0], authors: ["a", "b", "c"] }]);
+  });
+
+  test("Filters differing in more than one field are kept.", () => {
+    expect(
+      mergeFilters(
+        [{ kinds: [0], authors: ["a"] }],
+        [{ kinds: [1], authors: ["b"] }]
+      )
+    ).toEqual([
+      { kinds: [0], authors: ["a"] },
+      { kinds: [1], authors: ["b"] },
+    ]);
+    expect(
+      mergeFilters([{ kinds: [1], since: 1 }], [{ kinds: [1], since: 2 }])
+    ).toEqual([
+      { kinds: [1], since: 1 },
+      { kinds: [1], since: 2 },
+    ]);
+  });
+
+  test("Filters with limit are never merged.", () => {
+    expect(
+      mergeFilters(
+        [{ authors: ["a"], limit: 1 }],
+        [{ authors: ["b"], limit: 1 }]
+      )
+    ).toEqual([
+      { authors: ["a"], limit: 1 },
+      { authors: ["b"], limit: 1 },
+    ]);
+  });
+});
+
+describe("chunkFilters()", () => {
+  test("Oversized fields are split and filters are packed into chunks.", () => {
+    expect(
+      chunkFilters(
+        [{ kinds: [0], authors: ["a", "b", "c"] }, { ids: ["x"] }],
+        2,
+        2
+      )
+    ).toEqual([
+      [
+        { kinds: [0], authors: ["a", "b"] },
+        { kinds: [0], authors: ["c"] },
+      ],
+      [{ ids: ["x"] }],
+    ]);
+  });
+});
+
+describe("enforceFilters option", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ enforceFilters: true });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Events not matching the active REQ are dropped.", async () => {
+    const req = createRxForwardReq("sub");
+    const ids: string[] = [];
+    rxNostr.use(req).subscribe(({ event }) => ids.push(event.id));
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "1", kind: 1 })]);
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "2", kind: 0 })]);
+    relay.send(["EVENT", "unknown", fakeEvent({ id: "3", kind: 1 })]);
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "4", kind: 1 })]);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(ids).toEqual(["1", "4"]);
+  });
+});
@@ -1,6 +1,9 @@
 import { WS } from "jest-websocket-mock";
 
+import { isFiltered } from "../nostr/filter.js";
+import { Negentropy } from "../nostr/nip77.js";
 import { Nostr } from "../nostr/primitive.js";
+import { unnull } from "../util.js";
 import { fakeEventMessage } from "./stub.js";
 
 export function createMockRelay(url: string, interval = 10) {
@@ -42,6 +45,82 @@ export function createMockRelay(url: string, interval = 10) {
   return server;
 }
 
+/**
+ * A relay which holds the given events and answers REQ and negentropy (NIP-77).
+ * Each answer is delayed by `delay` milliseconds if given.
+ */
+export function createMockNegentropyRelay(
+  url: string,
+  events: Nostr.Event[],
+  delay?: number
+) {
+  const server = new WS(url, { jsonProtocol: true });
+
+  server.on("connection", (ws) => {
+    const sessions = new Map<string, Negentropy>();
+    const reply = (message: Nostr.IncomingMessage.Any) => {
+      if (delay === undefined) {
+        ws.send(JSON.stringify(message));
+      } else {
+        setTimeout(() => ws.send(JSON.stringify(message)), delay);
+      }
+    };
+
+    ws.on("message", (rawMessage) => {
+      if (typeof rawMessage !== "string") {
+        throw new Error("Unexpected type message");
+      }
+
+      const message: Nostr.OutgoingMessage.Any = JSON.parse(rawMessage);
+      switch (message[0]) {
+        case "REQ": {
+          const [, subId, ...filters] = message;
+          for (const event of events) {
+            if (isFiltered(event, filters)) {
+              reply(["EVENT", subId, event]);
+            }
+          }
+          reply(["EOSE", subId]);
+          break;
+        }
+        case "NEG-OPEN": {
+          const [, subId, filter, initialMessage] = message;
+          const negentropy = new Negentropy(
+            events.filter((event) => isFiltered(event, filter))
+          );
+          sessions.set(subId, negentropy);
+          reply([
+            "NEG-MSG",
+            subId,
+            unnull(negentropy.reconcile(initialMessage).output),
+          ]);
+          break;
+        }
+        case "NEG-MSG": {
+          const [, subId, negMessage] = message;
+          const negentropy = sessions.get(subId);
+          if (negentropy) {
+            reply([
+              "NEG-MSG",
+              subId,
+              unnull(negentropy.reconcile(negMessage).output),
+            ]);
+          } else {
+            reply(["NEG-ERR", subId, "closed: unknown subscription"]);
+          }
+          break;
+        }
+        case "NEG-CLOSE": {
+          sessions.delete(message[1]);
+          break;
+        }
+      }
+    });
+  });
+
+  return server;
+}
+
 class FakeEventProvider {
   private subs: Record<string, Record<string, NodeJS.Timeout>> = {};
 
@@ -1,9 +1,15 @@
 import { of } from "rxjs";
 
-import { latestEach } from "../operator.js";
+import {
+  filterBy,
+  isRetraction,
+  latestEach,
+  latestReplaceable,
+  retractDeleted,
+} from "../operator.js";
 import { EventPacket } from "../packet.js";
 import { fakeEventPacket } from "./stub.js";
-import { testScheduler } from "./test-helper.js";
+import { asArray, testScheduler } from "./test-helper.js";
 
 test("latestEach()", async () => {
   testScheduler().run((helpers) => {
@@ -35,3 +41,121 @@ test("latestEach()", async () => {
     );
   });
 });
+
+test("filterBy()", async () => {
+  testScheduler().run((helpers) => {
+    const { expectObservable } = helpers;
+
+    const packet$ = of<EventPacket[]>(
+      fakeEventPacket({ event: { id: "1", kind: 1, created_at: 1 } }),
+      fakeEventPacket({ event: { id: "2", kind: 0, created_at: 1 } }),
+      fakeEventPacket({ event: { id: "3", kind: 1, created_at: 3 } })
+    ).pipe(filterBy({ kinds: [1], until: 2 }));
+
+    expectObservable(packet$).toEqual(
+      of(fakeEventPacket({ event: { id: "1", kind: 1, created_at: 1 } }))
+    );
+  });
+});
+
+test("retractDeleted()", async () => {
+  const deletion = fakeEventPacket({
+    event: {
+      id: "d",
+      kind: 5,
+      pubkey: "alice",
+      created_at: 2,
+      tags: [
+        ["e", "1"],
+        ["a", "30023:alice:article"],
+      ],
+    },
+  });
+  const article = fakeEventPacket({
+    event: {
+      id: "2",
+      kind: 30023,
+      pubkey: "alice",
+      created_at: 1,
+      tags: [["d", "article"]],
+    },
+  });
+
+  const packets = await asArray(
+    of<EventPacket[]>(
+      fakeEventPacket({ event: { id: "1", pubkey: "alice" } }),
+      article,
+      deletion,
+      fakeEventPacket({ event: { id: "1", pubkey: "alice" } }),
+      fakeEventPacket({ event: { id: "3", pubkey: "alice" } })
+    ).pipe(retractDeleted())
+  );
+
+  expect(
+    packets.map((packet) =>
+      isRetraction(packet)
+        ? `retract ${packet.retracted.event.id}`
+        : packet.event.id
+    )
+  ).toEqual(["1", "2", "retract 1", "retract 2", "3"]);
+});
+
+test("retractDeleted() forgets events beyond maxRetained.", async () => {
+  const deletion = fakeEventPacket({
+    event: {
+      id: "d",
+      kind: 5,
+      pubkey: "alice",
+      tags: [
+        ["e", "1"],
+        ["e", "2"],
+      ],
+    },
+  });
+
+  const packets = await asArray(
+    of<EventPacket[]>(
+      fakeEventPacket({ event: { id: "1", pubkey: "alice" } }),
+      fakeEventPacket({ event: { id: "2", pubkey: "alice" } }),
+      deletion
+    ).pipe(retractDeleted(1))
+  );
+
+  expect(
+    packets.map((packet) =>
+      isRetraction(packet)
+        ? `retract ${packet.retracted.event.id}`
+        : packet.event.id
+    )
+  ).toEqual(["1", "2", "retract 2"]);
+});
+
+test("latestReplaceable()", async () => {
+  const packets = await asArray(
+    of<EventPacket[]>(
+      fakeEventPacket({ event: { id: "1", kind: 1, created_at: 1 } }),
+      fakeEventPacket({ event: { id: "1", kind: 1, created_at: 1 } }),
+      fakeEventPacket({ event: { id: "2", kind: 0, created_at: 2 } }),
+      fakeEventPacket({ event: { id: "3", kind: 0, created_at: 1 } }),
+      fakeEventPacket({
+        event: { id: "4", kind: 30023, created_at: 1, tags: [["d", "a"]] },
+      }),
+      fakeEventPacket({
+        event: { id: "5", kind: 30023, created_at: 1, tags: [["d", "b"]] },
+      }),
+      fakeEventPacket({
+        event: { id: "6", kind: 30023, created_at: 2, tags: [["d", "a"]] },
+      }),
+      fakeEventPacket({ event: { id: "7", kind: 20000, created_at: 1 } })
+    ).pipe(latestReplaceable())
+  );
+
+  expect(packets.map(({ event }) => event.id)).toEqual([
+    "1",
+    "1",
+    "2",
+    "4",
+    "5",
+    "6",
+  ]);
+});
@@ -0,0 +1,136 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createRxForwardReq,
+  createRxNostr,
+  Nostr,
+  parseRelayList,
+  RxNostr,
+  seckeySigner,
+} from "../index.js";
+import { OutboxRouter } from "../outbox.js";
+import { fakeEvent } from "./stub.js";
+
+const signer = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+const OTHER_PUBKEY =
+  "79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+
+test("parseRelayList()", () => {
+  const event = fakeEvent({
+    kind: Nostr.Kind.RelayList,
+    tags: [
+      ["r", "wss://both.example.com"],
+      ["r", "wss://read.example.com", "read"],
+      ["r", "wss://write.example.com", "write"],
+      ["p", "wss://not-relay.example.com"],
+    ],
+  });
+
+  expect(parseRelayList(event)).toEqual({
+    read: ["wss://both.example.com", "wss://read.example.com"],
+    write: ["wss://both.example.com", "wss://write.example.com"],
+  });
+});
+
+test("OutboxRouter fetches relay lists again if they weren't found.", async () => {
+  const relayList = fakeEvent({
+    kind: Nostr.Kind.RelayList,
+    pubkey: OTHER_PUBKEY,
+    tags: [["r", "wss://write.example.com", "write"]],
+  });
+  const fetchRelayLists = jest
+    .fn()
+    .mockRejectedValueOnce(new Error("failed"))
+    .mockResolvedValueOnce([])
+    .mockResolvedValueOnce([relayList]);
+  const router = new OutboxRouter({}, fetchRelayLists);
+  const filters = [{ authors: [OTHER_PUBKEY] }];
+  const fallback = ["wss://fallback.example.com"];
+
+  expect(Array.from((await router.route(filters, fallback)).keys())).toEqual(
+    fallback
+  );
+  expect(Array.from((await router.route(filters, fallback)).keys())).toEqual(
+    fallback
+  );
+  expect(Array.from((await router.route(filters, fallback)).keys())).toEqual([
+    "wss://write.example.com",
+  ]);
+  expect(fetchRelayLists).toHaveBeenCalledTimes(3);
+});
+
+describe("Outbox model", () => {
+  const RELAY_URL1 = "ws://localhost:1234";
+  const RELAY_URL2 = "ws://localhost:1235";
+  const RELAY_URL3 = "ws://localhost:1236";
+  let rxNostr: RxNostr;
+  let relay1: WS;
+  let relay2: WS;
+  let relay3: WS;
+  let pubkey: string;
+
+  beforeEach(async () => {
+    relay1 = new WS(RELAY_URL1, { jsonProtocol: true });
+    relay2 = new WS(RELAY_URL2, { jsonProtocol: true });
+    relay3 = new WS(RELAY_URL3, { jsonProtocol: true });
+
+    pubkey = await signer.getPublicKey();
+    const relayList = await signer.signEvent({
+      kind: Nostr.Kind.RelayList,
+      content: "",
+      tags: [
+        ["r", RELAY_URL2, "write"],
+        ["r", RELAY_URL3, "read"],
+      ],
+    });
+
+    // relay1 serves the relay list.
+    relay1.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const [type, subId, filter] = JSON.parse(data as string);
+        if (type === "REQ" && filter.kinds?.includes(Nostr.Kind.RelayList)) {
+          socket.send(JSON.stringify(["EVENT", subId, relayList]));
+          socket.send(JSON.stringify(["EOSE", subId]));
+        }
+      });
+    });
+
+    rxNostr = createRxNostr({ signer, outbox: {}, okTimeout: 500 });
+    rxNostr.setRelays([RELAY_URL1]);
+    await relay1.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("REQ is split by write relays of authors.", async () => {
+    const req = createRxForwardReq("sub");
+    rxNostr.use(req).subscribe();
+
+    req.emit([{ kinds: [1], authors: [pubkey, OTHER_PUBKEY] }]);
+
+    await expect(relay2).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [1], authors: [pubkey] },
+    ]);
+    expect(relay1.messages).toContainEqual([
+      "REQ",
+      "sub:0",
+      { kinds: [1], authors: [OTHER_PUBKEY] },
+    ]);
+  });
+
+  test("EVENT is also sent to read relays of p-tagged users.", async () => {
+    rxNostr.send({ kind: 1, content: "hi", tags: [["p", pubkey]] }).subscribe();
+
+    const [type] = (await relay3.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    expect(type).toBe("EVENT");
+    expect(relay1.messages).toContainEqual(["EVENT", expect.anything()]);
+    expect(relay2.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,251 @@
+import { WS } from "jest-websocket-mock";
+import { firstValueFrom, skip } from "rxjs";
+
+import {
+  createRxNostr,
+  isFiltered,
+  Nostr,
+  paginate,
+  Paginator,
+  RxNostr,
+} from "../index.js";
+import { fakeEvent } from "./stub.js";
+
+/** Let the relay answer REQs with the events, newer first, respecting `limit` of each filter. */
+function serveEvents(relay: WS, events: Nostr.Event[], maxLimit = Infinity) {
+  relay.on("connection", (socket) => {
+    socket.on("message", (data) => {
+      const [type, subId, ...filters]: [string, string, ...Nostr.Filter[]] =
+        JSON.parse(data as string);
+      if (type !== "REQ") {
+        return;
+      }
+      for (const filter of filters) {
+        for (const event of events
+          .filter((event) => isFiltered(event, filter))
+          .slice(0, Math.min(filter.limit ?? Infinity, maxLimit))) {
+          socket.send(JSON.stringify(["EVENT", subId, event]));
+        }
+      }
+      socket.send(JSON.stringify(["EOSE", subId]));
+    });
+  });
+}
+
+function createLoadMore(paginator: Paginator) {
+  return () => {
+    const loaded = firstValueFrom(
+      paginator.getHasMoreObservable().pipe(skip(1))
+    );
+    paginator.loadMore();
+    return loaded;
+  };
+}
+
+describe("paginate()", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    // The relay has 10 events of kind 0, created at 1 to 10, and 2 events of kind 1.
+    serveEvents(relay, [
+      ...Array.from({ length: 10 }, (_, i) =>
+        fakeEvent({ id: String(10 - i), created_at: 10 - i })
+      ),
+      fakeEvent({ id: "a", kind: 1, created_at: 10 }),
+      fakeEvent({ id: "b", kind: 1, created_at: 9 }),
+    ]);
+
+    rxNostr = createRxNostr();
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Load older pages until the relay is exhausted.", async () => {
+    const paginator = paginate(rxNostr, [{ kinds: [0] }], { pageSize: 4 });
+    const ids: string[] = [];
+    paginator.getEventObservable().subscribe(({ event }) => {
+      ids.push(event.id);
+    });
+    const loadMore = createLoadMore(paginator);
+
+    await loadMore();
+    expect(ids).toEqual(["10", "9", "8", "7"]);
+    await loadMore();
+    expect(ids).toEqual(["10", "9", "8", "7", "6", "5", "4"]);
+    await loadMore();
+    expect(paginator.hasMore()).toEqual({ [RELAY_URL]: true });
+
+    // The last page is shorter than pageSize.
+    expect(await loadMore()).toEqual({ [RELAY_URL]: false });
+    expect(ids).toEqual(["10", "9", "8", "7", "6", "5", "4", "3", "2", "1"]);
+
+    paginator.dispose();
+  });
+
+  test("Each filter is paginated separately.", async () => {
+    const paginator = paginate(rxNostr, [{ kinds: [0] }, { kinds: [1] }], {
+      pageSize: 4,
+    });
+    const ids: string[] = [];
+    paginator.getEventObservable().subscribe(({ event }) => {
+      ids.push(event.id);
+    });
+    const loadMore = createLoadMore(paginator);
+
+    // The filter of kind 1 is exhausted, but that of kind 0 is not.
+    expect(await loadMore()).toEqual({ [RELAY_URL]: true });
+    expect(ids).toEqual(["10", "9", "8", "7", "a", "b"]);
+
+    // Only the filter of kind 0 is sent for the next page.
+    await loadMore();
+    expect(relay.messages).toContainEqual([
+      "REQ",
+      expect.any(String),
+      { kinds: [0], limit: 4, until: 7 },
+    ]);
+
+    paginator.dispose();
+  });
+});
+
+describe("paginate() with multiple relays", () => {
+  const RELAY_URL1 = "ws://localhost:1234";
+  const RELAY_URL2 = "ws://localhost:1235";
+  let rxNostr: RxNostr;
+  let relay1: WS;
+  let relay2: WS;
+
+  beforeEach(async () => {
+    relay1 = new WS(RELAY_URL1, { jsonProtocol: true });
+    relay2 = new WS(RELAY_URL2, { jsonProtocol: true });
+
+    const events = [
+      fakeEvent({ id: "10", created_at: 10 }),
+      fakeEvent({ id: "9", created_at: 9 }),
+      fakeEvent({ id: "8a", created_at: 8 }),
+      fakeEvent({ id: "8b", created_at: 8 }),
+      fakeEvent({ id: "7", created_at: 7 }),
+    ];
+    serveEvents(relay1, events.slice(0, 3));
+    serveEvents(relay2, events);
+
+    rxNostr = createRxNostr();
+    rxNostr.setRelays([RELAY_URL1, RELAY_URL2]);
+    await relay1.connected;
+    await relay2.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Events delivered by another relay don't skip the rest at the same second.", async () => {
+    const paginator = paginate(rxNostr, [{ kinds: [0] }], { pageSize: 3 });
+    const ids: string[] = [];
+    paginator.getEventObservable().subscribe(({ event }) => {
+      ids.push(event.id);
+    });
+    const loadMore = () => {
+      const loaded = firstValueFrom(
+        paginator.getHasMoreObservable().pipe(skip(2))
+      );
+      paginator.loadMore();
+      return loaded;
+    };
+
+    await loadMore();
+    expect(ids).toEqual(["10", "9", "8a"]);
+
+    expect(await loadMore()).toEqual({
+      [RELAY_URL1]: false,
+      [RELAY_URL2]: true,
+    });
+    expect(ids).toEqual(["10", "9", "8a", "8b", "7"]);
+
+    paginator.dispose();
+  });
+});
+
+describe("paginate() with relay limitation", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+    serveEvents(
+      relay,
+      Array.from({ length: 10 }, (_, i) =>
+        fakeEvent({ id: String(10 - i), created_at: 10 - i })
+      ),
+      3
+    );
+
+    rxNostr = createRxNostr({
+      fetchRelayInfo: true,
+      fetcher: (async () => ({
+        ok: true,
+        json: async () => ({ limitation: { max_limit: 3 } }),
+      })) as unknown as typeof fetch,
+    });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+    await rxNostr.fetchRelayInfo(RELAY_URL);
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("A page clamped by max_limit doesn't exhaust the relay.", async () => {
+    const paginator = paginate(rxNostr, [{ kinds: [0] }], { pageSize: 4 });
+    const ids: string[] = [];
+    paginator.getEventObservable().subscribe(({ event }) => {
+      ids.push(event.id);
+    });
+    const loadMore = createLoadMore(paginator);
+
+    expect(await loadMore()).toEqual({ [RELAY_URL]: true });
+    expect(ids).toEqual(["10", "9", "8"]);
+
+    paginator.dispose();
+  });
+});
+
+describe("paginate() with an unresponsive relay", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ timeout: 100 });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Timeout doesn't exhaust the relay.", async () => {
+    const paginator = paginate(rxNostr, [{ kinds: [0] }], { pageSize: 4 });
+
+    expect(await createLoadMore(paginator)()).toEqual({ [RELAY_URL]: true });
+
+    paginator.dispose();
+  });
+});
@@ -0,0 +1,85 @@
+import { WS } from "jest-websocket-mock";
+import { of } from "rxjs";
+
+import {
+  createRxNostr,
+  getPow,
+  minPow,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+} from "../index.js";
+import { createEventBySecretKey, getEventHash } from "../nostr/event.js";
+import { fakeEventPacket } from "./stub.js";
+import { asArray } from "./test-helper.js";
+
+const SECKEY =
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b";
+
+test("getPow() counts leading zero bits.", () => {
+  expect(getPow("ffff")).toBe(0);
+  expect(getPow("0fff")).toBe(4);
+  expect(getPow("002f")).toBe(10);
+  expect(getPow("0000")).toBe(16);
+});
+
+test("createEventBySecretKey() mines a nonce tag.", async () => {
+  const event = await createEventBySecretKey({ kind: 1, content: "" }, SECKEY, {
+    difficulty: 8,
+  });
+
+  expect(getPow(event.id)).toBeGreaterThanOrEqual(8);
+  expect(event.id).toBe(getEventHash(event));
+  expect(event.tags).toContainEqual(["nonce", expect.any(String), "8"]);
+});
+
+test("Mining can be aborted.", async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  await expect(
+    createEventBySecretKey({ kind: 1, content: "" }, SECKEY, {
+      difficulty: 64,
+      signal: controller.signal,
+    })
+  ).rejects.toBeDefined();
+});
+
+test("minPow() drops events under the difficulty.", async () => {
+  const packets = await asArray(
+    of(
+      fakeEventPacket({ event: { id: "00ff" } }),
+      fakeEventPacket({ event: { id: "0fff" } })
+    ).pipe(minPow(8))
+  );
+
+  expect(packets.map(({ event }) => event.id)).toEqual(["00ff"]);
+});
+
+describe("send() with pow", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ signer: seckeySigner(SECKEY) });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("The event satisfies the difficulty.", async () => {
+    rxNostr
+      .send({ kind: 1, content: "" }, { pow: { difficulty: 8 } })
+      .subscribe();
+
+    const [, event] = (await relay.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    expect(getPow(event.id)).toBeGreaterThanOrEqual(8);
+  });
+});
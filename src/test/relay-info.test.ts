@@ -0,0 +1,123 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createRxBackwardReq,
+  createRxNostr,
+  ErrorPacket,
+  RxNostr,
+} from "../index.js";
+import { fakeEvent } from "./stub.js";
+import { sleep } from "./test-helper.js";
+
+describe("Relay information document", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+  let fetcher: jest.Mock;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+    fetcher = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        name: "test relay",
+        supported_nips: [1, 11],
+        limitation: { max_subscriptions: 2, max_filters: 1, max_limit: 10 },
+      }),
+    }));
+
+    rxNostr = createRxNostr({
+      fetchRelayInfo: true,
+      fetcher: fetcher as unknown as typeof fetch,
+    });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("fetchRelayInfo() fetches the document once per relay.", async () => {
+    const info = await rxNostr.fetchRelayInfo(RELAY_URL);
+    await rxNostr.fetchRelayInfo(RELAY_URL);
+
+    expect(info.supported_nips).toEqual([1, 11]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledWith("http://localhost:1234", {
+      headers: { Accept: "application/nostr+json" },
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  test("REQs respect the limitation.", async () => {
+    const req = createRxBackwardReq("sub");
+    const packets: [string, string][] = [];
+    rxNostr.use(req).subscribe(({ subId, event }) => {
+      packets.push([subId, event.id]);
+    });
+
+    req.emit([{ kinds: [0], limit: 100 }, { kinds: [1] }]);
+    req.emit([{ kinds: [2] }]);
+
+    // `limit` is clamped and extra filters are sent as another REQ.
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [0], limit: 10 },
+    ]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:0#1", { kinds: [1] }]);
+
+    // The second REQ waits for a free slot.
+    await sleep(100);
+    expect(relay.messages).toHaveLength(2);
+
+    relay.send(["EVENT", "sub:0#1", fakeEvent({ id: "1", kind: 1 })]);
+    relay.send(["EOSE", "sub:0"]);
+    await sleep(100);
+    expect(packets).toEqual([["sub:0", "1"]]);
+    expect(relay.messages).toHaveLength(2);
+
+    // Chunks are closed together after all of them have received EOSE.
+    relay.send(["EOSE", "sub:0#1"]);
+    await expect(relay).toReceiveMessage(["CLOSE", "sub:0"]);
+    await expect(relay).toReceiveMessage(["CLOSE", "sub:0#1"]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:1", { kinds: [2] }]);
+  });
+});
+
+describe("Unresponsive relay information endpoint", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({
+      fetchRelayInfo: true,
+      fetcher: (() => new Promise(() => undefined)) as typeof fetch,
+      timeout: 100,
+    });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("REQs are sent without the document after timeout.", async () => {
+    const errors: ErrorPacket[] = [];
+    rxNostr.createAllErrorObservable().subscribe((e) => errors.push(e));
+
+    const req = createRxBackwardReq("sub");
+    rxNostr.use(req).subscribe();
+    req.emit([{ kinds: [0] }]);
+
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [0] }]);
+    expect(errors.map(({ from }) => from)).toEqual([RELAY_URL]);
+  });
+});
@@ -0,0 +1,94 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createRxForwardReq,
+  createRxNostr,
+  createRxOneshotReq,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+} from "../index.js";
+import { asArray, sleep, sync } from "./test-helper.js";
+
+const signer = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+
+describe("Relay targeting", () => {
+  const RELAY_URL1 = "ws://localhost:1234";
+  const RELAY_URL2 = "ws://localhost:1235";
+  const RELAY_URL3 = "ws://localhost:1236";
+  let rxNostr: RxNostr;
+  let relay1: WS;
+  let relay2: WS;
+  let relay3: WS;
+
+  beforeEach(async () => {
+    relay1 = new WS(RELAY_URL1, { jsonProtocol: true });
+    relay2 = new WS(RELAY_URL2, { jsonProtocol: true });
+    relay3 = new WS(RELAY_URL3, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ signer, okTimeout: 500 });
+    rxNostr.setRelays([RELAY_URL1, RELAY_URL2]);
+    await relay1.connected;
+    await relay2.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("[use] REQ is sent only to the specified relay.", async () => {
+    const req = createRxForwardReq("sub");
+    rxNostr.use(req, { relays: [RELAY_URL2] }).subscribe();
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay2).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+
+    await sleep(100);
+    expect(relay1.messages).toEqual([]);
+  });
+
+  test("[use] A relay out of the default set is connected on demand and released.", async () => {
+    const [closeSync, resolveClose] = sync();
+    relay3.on("connection", (socket) => {
+      socket.on("close", () => resolveClose());
+    });
+
+    const req = createRxOneshotReq({
+      subId: "sub",
+      filters: [{ kinds: [1] }],
+    });
+    const result = asArray(rxNostr.use(req, { relays: [RELAY_URL3] }));
+
+    await expect(relay3).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+    relay3.send(["EOSE", "sub:0"]);
+
+    expect(await result).toEqual([]);
+    await closeSync;
+    expect(rxNostr.hasRelay(RELAY_URL3)).toBe(false);
+    expect(relay1.messages).toEqual([]);
+  });
+
+  test("[send] EVENT is sent only to the specified relays.", async () => {
+    const result = asArray(
+      rxNostr.send({ kind: 1, content: "" }, { relays: [RELAY_URL3] })
+    );
+
+    const [, event] = (await relay3.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    relay3.send(["OK", event.id, true, ""]);
+
+    expect(await result).toEqual([
+      {
+        from: RELAY_URL3,
+        id: event.id,
+        ok: true,
+        notice: "",
+        prefix: undefined,
+      },
+    ]);
+    expect(relay1.messages).toEqual([]);
+    expect(relay2.messages).toEqual([]);
+  });
+});
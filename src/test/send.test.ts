@@ -0,0 +1,78 @@
+import { WS } from "jest-websocket-mock";
+
+import { createRxNostr, Nostr, RxNostr, seckeySigner } from "../index.js";
+import { asArray } from "./test-helper.js";
+
+const signer = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+
+describe("send()", () => {
+  const RELAY_URL1 = "ws://localhost:1234";
+  const RELAY_URL2 = "ws://localhost:1235";
+  let rxNostr: RxNostr;
+  let relay1: WS;
+  let relay2: WS;
+
+  beforeEach(async () => {
+    relay1 = new WS(RELAY_URL1, { jsonProtocol: true });
+    relay2 = new WS(RELAY_URL2, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ okTimeout: 500 });
+    rxNostr.setRelays([RELAY_URL1, RELAY_URL2]);
+    await relay1.connected;
+    await relay2.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("OkPackets reflect each relay's result for the sent event.", async () => {
+    const result = asArray(rxNostr.send({ kind: 1, content: "" }, { signer }));
+
+    const [, event] = (await relay1.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    await relay2.nextMessage;
+
+    // An OK for another event must be ignored.
+    relay1.send(["OK", "other-event-id", true, ""]);
+    relay1.send(["OK", event.id, true, ""]);
+    relay2.send(["OK", event.id, false, "pow: difficulty 20 is required"]);
+
+    expect(await result).toEqual(
+      expect.arrayContaining([
+        {
+          from: RELAY_URL1,
+          id: event.id,
+          ok: true,
+          notice: "",
+          prefix: undefined,
+        },
+        {
+          from: RELAY_URL2,
+          id: event.id,
+          ok: false,
+          notice: "pow: difficulty 20 is required",
+          prefix: "pow",
+        },
+      ])
+    );
+  });
+
+  test("Relays not responding OK are timed out.", async () => {
+    const result = asArray(rxNostr.send({ kind: 1, content: "" }, { signer }));
+
+    const [, event] = (await relay1.nextMessage) as Nostr.OutgoingMessage.EVENT;
+    relay1.send(["OK", event.id, true, ""]);
+
+    const packets = await result;
+    expect(packets.length).toBe(2);
+    expect(packets).toContainEqual({
+      from: RELAY_URL2,
+      id: event.id,
+      ok: false,
+      timeout: true,
+    });
+  });
+});
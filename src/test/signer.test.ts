@@ -0,0 +1,155 @@
+import { WS } from "jest-websocket-mock";
+
+import { createRxNostr, nip46Signer, Nostr, seckeySigner } from "../index.js";
+import {
+  createEventBySecretKey,
+  getPublicKey,
+  verify,
+} from "../nostr/event.js";
+import { decryptNip04, encryptNip04 } from "../nostr/nip04.js";
+
+const ALICE_SECKEY =
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b";
+const BOB_SECKEY =
+  "7f1e2d3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a69788796a5b4c3d2e1f0";
+
+test("seckeySigner() signs valid events.", async () => {
+  const signer = seckeySigner(ALICE_SECKEY);
+  const event = await signer.signEvent({ kind: 1, content: "hello" });
+
+  expect(event.pubkey).toBe(await signer.getPublicKey());
+  expect(verify(event)).toBe(true);
+});
+
+test("NIP-04 ciphertext can be decrypted by the peer.", async () => {
+  const alice = seckeySigner(ALICE_SECKEY);
+  const bob = seckeySigner(BOB_SECKEY);
+
+  const ciphertext = await alice.nip04?.encrypt(
+    await bob.getPublicKey(),
+    "secret message"
+  );
+  expect(
+    await bob.nip04?.decrypt(await alice.getPublicKey(), ciphertext ?? "")
+  ).toBe("secret message");
+});
+
+describe("nip46Signer()", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  const REMOTE_PUBKEY = getPublicKey(BOB_SECKEY);
+  let relay: WS;
+
+  beforeEach(() => {
+    relay = new WS(RELAY_URL);
+  });
+
+  afterEach(() => {
+    WS.clean();
+  });
+
+  test("Delegate signing to the remote signer.", async () => {
+    startMockRemoteSigner(relay, BOB_SECKEY);
+    const rxNostr = createRxNostr();
+    const signer = nip46Signer({
+      bunker: `bunker://${REMOTE_PUBKEY}?relay=${RELAY_URL}&secret=xyz`,
+      seckey: ALICE_SECKEY,
+      timeout: 1000,
+      rxNostr,
+    });
+
+    expect(await signer.getPublicKey()).toBe(REMOTE_PUBKEY);
+
+    const event = await signer.signEvent({ kind: 1, content: "hello" });
+    expect(event.pubkey).toBe(REMOTE_PUBKEY);
+    expect(verify(event)).toBe(true);
+
+    signer.dispose();
+    rxNostr.dispose();
+  });
+
+  test.each([
+    ["another content", { content: "bye" }],
+    ["another signer", { pubkey: getPublicKey(ALICE_SECKEY) }],
+    ["an invalid signature", { sig: "0".repeat(128) }],
+  ])("Reject an event with %s.", async (_, tampered) => {
+    startMockRemoteSigner(relay, BOB_SECKEY, (event) => ({
+      ...event,
+      ...tampered,
+    }));
+    const rxNostr = createRxNostr();
+    const signer = nip46Signer({
+      bunker: `bunker://${REMOTE_PUBKEY}?relay=${RELAY_URL}&secret=xyz`,
+      seckey: ALICE_SECKEY,
+      timeout: 1000,
+      rxNostr,
+    });
+
+    await expect(
+      signer.signEvent({ kind: 1, content: "hello" })
+    ).rejects.toThrow("unexpected event");
+
+    signer.dispose();
+    rxNostr.dispose();
+  });
+});
+
+/**
+ * Mimic a remote signer which holds `seckey` as the user's key,
+ * and also as the key to communicate with clients.
+ * Signed events are passed through `tamper` if given.
+ */
+function startMockRemoteSigner(
+  relay: WS,
+  seckey: string,
+  tamper: (event: Nostr.Event) => Nostr.Event = (event) => event
+) {
+  const pubkey = getPublicKey(seckey);
+
+  relay.on("connection", (socket) => {
+    let subId = "";
+
+    socket.on("message", (rawMessage) => {
+      const message: Nostr.OutgoingMessage.Any = JSON.parse(
+        rawMessage as string
+      );
+      if (message[0] === "REQ") {
+        subId = message[1];
+      }
+      if (message[0] !== "EVENT") {
+        return;
+      }
+
+      const request = message[1];
+      socket.send(JSON.stringify(["OK", request.id, true, ""]));
+
+      const { id, method, params } = JSON.parse(
+        decryptNip04(seckey, request.pubkey, request.content)
+      );
+      const result =
+        method === "connect"
+          ? "ack"
+          : method === "get_public_key"
+          ? pubkey
+          : method === "sign_event"
+          ? JSON.stringify(
+              tamper(createEventBySecretKey(JSON.parse(params[0]), seckey))
+            )
+          : undefined;
+      const response = createEventBySecretKey(
+        {
+          kind: Nostr.Kind.NostrConnect,
+          content: encryptNip04(
+            seckey,
+            request.pubkey,
+            JSON.stringify(
+              result ? { id, result } : { id, error: "not supported" }
+            )
+          ),
+          tags: [["p", request.pubkey]],
+        },
+        seckey
+      );
+      socket.send(JSON.stringify(["EVENT", subId, response]));
+    });
+  });
+}
@@ -0,0 +1,152 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createMemoryEventStore,
+  createRxNostr,
+  createRxOneshotReq,
+  EventStore,
+  RxNostr,
+} from "../index.js";
+import { fakeEvent, fakeEventPacket } from "./stub.js";
+import { sync } from "./test-helper.js";
+
+test("Memory store answers queries respecting filters and limit.", async () => {
+  const store = createMemoryEventStore();
+  await store.put(
+    fakeEventPacket({ event: { id: "1", kind: 1, created_at: 1 } })
+  );
+  await store.put(
+    fakeEventPacket({ event: { id: "2", kind: 1, created_at: 3 } })
+  );
+  await store.put(
+    fakeEventPacket({ event: { id: "3", kind: 0, created_at: 2 } })
+  );
+  await store.put(
+    fakeEventPacket({ event: { id: "4", kind: 1, created_at: 2 } })
+  );
+
+  const result = await store.query([{ kinds: [1], limit: 2 }]);
+  expect(result.map(({ event }) => event.id)).toEqual(["2", "4"]);
+});
+
+test("Memory store honors deletions if requested.", async () => {
+  const store = createMemoryEventStore({ honorDeletion: true });
+  await store.put(
+    fakeEventPacket({ event: { id: "1", kind: 1, pubkey: "alice" } })
+  );
+  await store.put(
+    fakeEventPacket({ event: { id: "2", kind: 1, pubkey: "alice" } })
+  );
+  await store.put(
+    fakeEventPacket({
+      event: {
+        id: "3",
+        kind: 5,
+        pubkey: "alice",
+        tags: [
+          ["e", "1"],
+          ["e", "2"],
+        ],
+      },
+    })
+  );
+  // Deletions by others are ignored.
+  await store.put(
+    fakeEventPacket({
+      event: { id: "4", kind: 5, pubkey: "bob", tags: [["e", "5"]] },
+    })
+  );
+  await store.put(
+    fakeEventPacket({ event: { id: "5", kind: 1, pubkey: "alice" } })
+  );
+  // Deleted events are not stored again.
+  await store.put(
+    fakeEventPacket({ event: { id: "1", kind: 1, pubkey: "alice" } })
+  );
+
+  const result = await store.query([{ kinds: [1] }]);
+  expect(result.map(({ event }) => event.id)).toEqual(["5"]);
+});
+
+describe("RxNostr with EventStore", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+  let store: EventStore;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+    store = createMemoryEventStore();
+
+    rxNostr = createRxNostr({ eventStore: store });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("[oneshot] Cached events come first and REQ asks only newer ones.", async () => {
+    await store.put(
+      fakeEventPacket({ from: RELAY_URL, event: { id: "1", created_at: 100 } })
+    );
+
+    const req = createRxOneshotReq({ subId: "sub", filters: [{ kinds: [0] }] });
+    const [firstSync, resolveFirst] = sync<string>();
+    rxNostr.use(req).subscribe(({ event, subId }) => {
+      resolveFirst(`${event.id}@${subId}`);
+    });
+
+    expect(await firstSync).toBe("1@sub:0");
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [0], since: 100 },
+    ]);
+  });
+
+  test("[oneshot] Cached events sent again by relays are not issued twice.", async () => {
+    await store.put(
+      fakeEventPacket({ from: RELAY_URL, event: { id: "1", created_at: 100 } })
+    );
+
+    const req = createRxOneshotReq({ subId: "sub", filters: [{ kinds: [0] }] });
+    const ids: string[] = [];
+    const [completed, resolveCompleted] = sync();
+    rxNostr.use(req).subscribe({
+      next: ({ event }) => {
+        ids.push(event.id);
+      },
+      complete: resolveCompleted,
+    });
+
+    await expect(relay).toReceiveMessage([
+      "REQ",
+      "sub:0",
+      { kinds: [0], since: 100 },
+    ]);
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "1", created_at: 100 })]);
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "2", created_at: 100 })]);
+    relay.send(["EOSE", "sub:0"]);
+
+    await completed;
+    expect(ids).toEqual(["1", "2"]);
+  });
+
+  test("Errors of query() are reported and REQ is sent as is.", async () => {
+    const reason = new Error("broken store");
+    store.query = () => Promise.reject(reason);
+    const errors: unknown[] = [];
+    rxNostr.createAllErrorObservable().subscribe((packet) => {
+      errors.push(packet.reason);
+    });
+
+    const req = createRxOneshotReq({ subId: "sub", filters: [{ kinds: [0] }] });
+    rxNostr.use(req).subscribe();
+
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [0] }]);
+    expect(errors).toEqual([reason]);
+  });
+});
@@ -8,7 +8,7 @@ import {
   RxNostr,
 } from "../index.js";
 import { createMockRelay, expectReceiveMessage } from "./mock-relay.js";
-import { asArray, sync } from "./test-helper.js";
+import { asArray, sleep, sync } from "./test-helper.js";
 
 describe("Single relay case", () => {
   const RELAY_URL = "ws://localhost:1234";
@@ -151,6 +151,38 @@ describe("Single relay case", () => {
     await eoseSync;
     expect(completed).toBe(true);
   });
+
+  test("[oneshot] Receipt of CLOSED terminates the Observable.", async () => {
+    const req = createRxOneshotReq({
+      subId: "sub",
+      filters: [{ kinds: [0] }],
+    });
+
+    const [completeSync, resolveComplete] = sync();
+    rxNostr.use(req).subscribe({
+      complete() {
+        resolveComplete();
+      },
+    });
+
+    await expectReceiveMessage(relay, ["REQ", "sub:0", { kinds: [0] }]);
+    relay.send(JSON.stringify(["CLOSED", "sub:0", "error: shutting down"]));
+
+    await completeSync;
+    expect(relay).not.toHaveReceivedMessages([
+      JSON.stringify(["CLOSE", "sub:0"]),
+    ]);
+  });
+
+  test("NOTICE is delivered to createAllNoticeObservable().", async () => {
+    const [noticeSync, resolveNotice] = sync<string>();
+    rxNostr.createAllNoticeObservable().subscribe(({ notice }) => {
+      resolveNotice(notice);
+    });
+
+    relay.send(JSON.stringify(["NOTICE", "hello"]));
+    expect(await noticeSync).toBe("hello");
+  });
 });
 
 describe("Slow relay and fast relay case", () => {
@@ -186,3 +218,42 @@ describe("Slow relay and fast relay case", () => {
     expect(result.length).toBe(6);
   });
 });
+
+describe("Concurrency limit case", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ maxConcurrentReqs: 1 });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Extra REQs wait for a free slot, and forward REQs go first.", async () => {
+    const backward = createRxBackwardReq("backward");
+    const forward = createRxForwardReq("forward");
+    rxNostr.use(backward).subscribe();
+    rxNostr.use(forward).subscribe();
+
+    backward.emit([{ kinds: [0] }]);
+    backward.emit([{ kinds: [1] }]);
+    forward.emit([{ kinds: [2] }]);
+    await expect(relay).toReceiveMessage(["REQ", "backward:0", { kinds: [0] }]);
+
+    relay.send(["EOSE", "backward:0"]);
+    await expect(relay).toReceiveMessage(["CLOSE", "backward:0"]);
+    await expect(relay).toReceiveMessage(["REQ", "forward:0", { kinds: [2] }]);
+
+    // The forward REQ keeps its slot until it is unsubscribed.
+    await sleep(100);
+    expect(relay.messages).toHaveLength(3);
+  });
+});
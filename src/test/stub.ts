@@ -32,3 +32,47 @@ export function fakeEventMessage(message?: {
 }): Nostr.IncomingMessage.EVENT {
   return ["EVENT", message?.subId ?? "*", fakeEvent(message?.event)];
 }
+
+/**
+ * In-memory WebSocket that opens immediately and records sent messages.
+ */
+export class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((ev: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => {
+      this.readyState = 1;
+      this.onopen?.();
+    });
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  /** Fail like `ws`, which throws if nobody listens to the error. */
+  fail() {
+    if (!this.onerror) {
+      throw new Error("Unhandled error event");
+    }
+    this.onerror();
+    this.close();
+  }
+}
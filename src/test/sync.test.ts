@@ -0,0 +1,139 @@
+import { WS } from "jest-websocket-mock";
+
+import { createRxNostr, Negentropy, Nostr, RxNostr } from "../index.js";
+import { createMockNegentropyRelay } from "./mock-relay.js";
+import { fakeEvent } from "./stub.js";
+import { sleep } from "./test-helper.js";
+
+function makeEvents(from: number, to: number): Nostr.Event[] {
+  return Array.from({ length: to - from }, (_, i) =>
+    fakeEvent({
+      id: (from + i).toString(16).padStart(64, "0"),
+      kind: 1,
+      // Some events share the same timestamp.
+      created_at: 1700000000 + Math.floor((from + i) / 3),
+    })
+  );
+}
+
+function idsOf(events: Nostr.Event[]): string[] {
+  return events.map(({ id }) => id).sort();
+}
+
+describe("Negentropy", () => {
+  test("Reconciliation completes with the difference of both sides.", () => {
+    const client = new Negentropy(makeEvents(0, 300));
+    const relay = new Negentropy(makeEvents(100, 500));
+    const have: string[] = [];
+    const need: string[] = [];
+
+    let message: string | null = client.initiate();
+    let rounds = 0;
+    while (message !== null) {
+      const reply = client.reconcile(relay.reconcile(message).output ?? "");
+      have.push(...reply.have);
+      need.push(...reply.need);
+      message = reply.output;
+      rounds++;
+    }
+
+    expect(rounds).toBeGreaterThan(1);
+    expect(have.sort()).toEqual(idsOf(makeEvents(0, 100)));
+    expect(need.sort()).toEqual(idsOf(makeEvents(300, 500)));
+  });
+
+  test("Identical sets are settled by the first reply.", () => {
+    const client = new Negentropy(makeEvents(0, 100));
+    const relay = new Negentropy(makeEvents(0, 100));
+
+    const reply = client.reconcile(
+      relay.reconcile(client.initiate()).output ?? ""
+    );
+    expect(reply).toEqual({ output: null, have: [], need: [] });
+  });
+});
+
+describe("sync()", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(() => {
+    relay = createMockNegentropyRelay(RELAY_URL, [
+      ...makeEvents(0, 200),
+      fakeEvent({ id: "f".repeat(64), kind: 7 }),
+    ]);
+    rxNostr = createRxNostr({ timeout: 500 });
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("have/need ids are reported for events matching the filter.", async () => {
+    const result = await rxNostr.sync(
+      { kinds: [1] },
+      makeEvents(50, 250),
+      RELAY_URL
+    );
+
+    expect(result.have.sort()).toEqual(idsOf(makeEvents(200, 250)));
+    expect(result.need.sort()).toEqual(idsOf(makeEvents(0, 50)));
+    expect(result.events).toEqual([]);
+
+    await sleep(100);
+    const messages = relay.messages as Nostr.OutgoingMessage.Any[];
+    expect(messages[0][0]).toBe("NEG-OPEN");
+    expect(messages.at(-1)).toEqual(["NEG-CLOSE", messages[0][1]]);
+  });
+
+  test("Missing events are fetched if `fetchEvents` is true.", async () => {
+    const result = await rxNostr.sync(
+      { kinds: [1] },
+      makeEvents(10, 200),
+      RELAY_URL,
+      { fetchEvents: true }
+    );
+
+    expect(result.need.sort()).toEqual(idsOf(makeEvents(0, 10)));
+    expect(idsOf(result.events.map(({ event }) => event))).toEqual(
+      idsOf(makeEvents(0, 10))
+    );
+    expect(result.events.every(({ from }) => from === RELAY_URL)).toBe(true);
+  });
+
+  test("Timeout applies to each negentropy message, not to the whole reconciliation.", async () => {
+    const SLOW_RELAY_URL = "ws://localhost:1235";
+    const slowRelay = createMockNegentropyRelay(
+      SLOW_RELAY_URL,
+      makeEvents(0, 2000),
+      300
+    );
+    const result = await rxNostr.sync(
+      { kinds: [1] },
+      makeEvents(500, 2500),
+      SLOW_RELAY_URL
+    );
+
+    // It takes longer than `timeout` in total.
+    const rounds = (slowRelay.messages as Nostr.OutgoingMessage.Any[]).filter(
+      ([type]) => type === "NEG-OPEN" || type === "NEG-MSG"
+    ).length;
+    expect(rounds * 300).toBeGreaterThan(500);
+    expect(result.have.sort()).toEqual(idsOf(makeEvents(2000, 2500)));
+    expect(result.need.sort()).toEqual(idsOf(makeEvents(0, 500)));
+  });
+
+  test("NEG-ERR rejects the result.", async () => {
+    const ERROR_RELAY_URL = "ws://localhost:1235";
+    const errorRelay = new WS(ERROR_RELAY_URL, { jsonProtocol: true });
+    const result = rxNostr.sync({ kinds: [1] }, [], ERROR_RELAY_URL);
+
+    const [, subId] =
+      (await errorRelay.nextMessage) as Nostr.OutgoingMessage.NEG_OPEN;
+    errorRelay.send(["NEG-ERR", subId, "blocked: too many records"]);
+
+    await expect(result).rejects.toThrow("blocked: too many records");
+  });
+});
@@ -0,0 +1,213 @@
+import { WS } from "jest-websocket-mock";
+
+import {
+  createRxForwardReq,
+  createRxNostr,
+  ErrorPacket,
+  InvalidMessageError,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+  validateIncomingMessage,
+} from "../index.js";
+import { fakeEvent } from "./stub.js";
+import { sleep } from "./test-helper.js";
+
+const signer = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+
+function getReason(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    return err instanceof InvalidMessageError ? err.reason : err;
+  }
+  return null;
+}
+
+describe("validateIncomingMessage()", () => {
+  let event: Nostr.Event;
+
+  beforeAll(async () => {
+    event = await signer.signEvent({ kind: 1, content: "hello" });
+  });
+
+  test("Valid messages pass.", () => {
+    expect(validateIncomingMessage(["EVENT", "sub", event])).toEqual([
+      "EVENT",
+      "sub",
+      event,
+    ]);
+    expect(getReason(() => validateIncomingMessage(["EOSE", "sub"]))).toBe(
+      null
+    );
+    expect(
+      getReason(() => validateIncomingMessage(["OK", event.id, true, ""]))
+    ).toBe(null);
+    expect(
+      getReason(() => validateIncomingMessage(["COUNT", "sub", { count: 1 }]))
+    ).toBe(null);
+  });
+
+  test("Messages with a wrong shape are rejected.", () => {
+    expect(getReason(() => validateIncomingMessage({ type: "EOSE" }))).toBe(
+      "invalid-message"
+    );
+    expect(getReason(() => validateIncomingMessage(["UNKNOWN", "x"]))).toBe(
+      "invalid-message"
+    );
+    expect(getReason(() => validateIncomingMessage(["EOSE"]))).toBe(
+      "invalid-message"
+    );
+    expect(getReason(() => validateIncomingMessage(["NOTICE", 1]))).toBe(
+      "invalid-message"
+    );
+    expect(
+      getReason(() => validateIncomingMessage(["OK", "x", true, ""]))
+    ).toBe("invalid-message");
+  });
+
+  test("Malformed events are rejected.", () => {
+    expect(
+      getReason(() => validateIncomingMessage(["EVENT", "sub", fakeEvent()]))
+    ).toBe("invalid-event");
+    expect(
+      getReason(() =>
+        validateIncomingMessage(["EVENT", "sub", { ...event, kind: "1" }])
+      )
+    ).toBe("invalid-event");
+    expect(
+      getReason(() =>
+        validateIncomingMessage(["EVENT", "sub", { ...event, content: "bye" }])
+      )
+    ).toBe("id-mismatch");
+  });
+});
+
+describe("strict option", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL);
+
+    rxNostr = createRxNostr({ strict: true });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Invalid messages are reported as errors and the stream survives.", async () => {
+    const valid = await signer.signEvent({ kind: 1, content: "valid" });
+    const req = createRxForwardReq("sub");
+    const ids: string[] = [];
+    const errors: ErrorPacket[] = [];
+    rxNostr.use(req).subscribe(({ event }) => ids.push(event.id));
+    rxNostr.createAllErrorObservable().subscribe((e) => errors.push(e));
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay).toReceiveMessage(
+      JSON.stringify(["REQ", "sub:0", { kinds: [1] }])
+    );
+
+    relay.send("not json");
+    relay.send(JSON.stringify(["EVENT", "sub:0", { ...valid, id: "0" }]));
+    relay.send(JSON.stringify(["EVENT", "sub:0", valid]));
+    await sleep(10);
+
+    expect(ids).toEqual([valid.id]);
+    expect(
+      errors.map(({ from, reason }) => [
+        from,
+        (reason as InvalidMessageError).reason,
+      ])
+    ).toEqual([
+      [RELAY_URL, "invalid-json"],
+      [RELAY_URL, "invalid-event"],
+    ]);
+  });
+});
+
+describe("Malformed frames", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL);
+
+    rxNostr = createRxNostr({ maxInvalidMessages: 3 });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("A malformed frame is reported and subscriptions keep alive.", async () => {
+    const req = createRxForwardReq("sub");
+    const ids: string[] = [];
+    const errors: ErrorPacket[] = [];
+    rxNostr.use(req).subscribe(({ event }) => ids.push(event.id));
+    rxNostr.createAllErrorObservable().subscribe((e) => errors.push(e));
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay).toReceiveMessage(
+      JSON.stringify(["REQ", "sub:0", { kinds: [1] }])
+    );
+
+    relay.send("not json");
+    relay.send(JSON.stringify(["EVENT", "sub:0", fakeEvent({ id: "1" })]));
+    await sleep(10);
+
+    expect(ids).toEqual(["1"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].from).toBe(RELAY_URL);
+    expect(errors[0].reason).toBeInstanceOf(InvalidMessageError);
+    expect((errors[0].reason as InvalidMessageError).data).toBe("not json");
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("ongoing");
+  });
+
+  test("JSON which is not a message is reported too.", async () => {
+    const errors: ErrorPacket[] = [];
+    rxNostr.createAllErrorObservable().subscribe((e) => errors.push(e));
+    const messages: unknown[] = [];
+    rxNostr
+      .createAllMessageObservable()
+      .subscribe(({ message }) => messages.push(message));
+
+    relay.send("null");
+    relay.send("{}");
+    await sleep(10);
+
+    expect(messages).toEqual([]);
+    expect(
+      errors.map(({ reason }) => [
+        (reason as InvalidMessageError).reason,
+        (reason as InvalidMessageError).data,
+      ])
+    ).toEqual([
+      ["invalid-message", null],
+      ["invalid-message", {}],
+    ]);
+  });
+
+  test("A relay sending too many malformed frames is disconnected.", async () => {
+    relay.send("not json");
+    relay.send("not json");
+    await sleep(10);
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("ongoing");
+
+    relay.send("not json");
+    await relay.closed;
+    expect(rxNostr.getRelayState(RELAY_URL)).toBe("error");
+  });
+});
@@ -0,0 +1,182 @@
+import { WS } from "jest-websocket-mock";
+import { MessageChannel } from "worker_threads";
+
+import {
+  createRxForwardReq,
+  createRxNostr,
+  createVerifier,
+  EventVerifier,
+  Nostr,
+  RxNostr,
+  seckeySigner,
+  startVerifierWorker,
+  VerifierWorker,
+} from "../index.js";
+import { fakeEvent } from "./stub.js";
+import { sleep } from "./test-helper.js";
+
+const signer = seckeySigner(
+  "2b2a5d1c6f3e8b4a9d0c7e1f5a3b6c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b"
+);
+
+/** A worker running on the same thread, which talks by real message passing. */
+function createInThreadWorker(requests: unknown[]): VerifierWorker {
+  const { port1, port2 } = new MessageChannel();
+  startVerifierWorker(port2);
+
+  return {
+    postMessage(message) {
+      requests.push(message);
+      port1.postMessage(message);
+    },
+    on(type, listener) {
+      port1.on(type, listener);
+    },
+    terminate() {
+      port1.close();
+    },
+  };
+}
+
+describe("createVerifier()", () => {
+  let verifier: EventVerifier;
+  let event: Nostr.Event;
+
+  beforeEach(async () => {
+    event = await signer.signEvent({ kind: 1, content: "hello" });
+  });
+
+  afterEach(() => {
+    verifier.dispose?.();
+  });
+
+  test("Events are verified by workers and the result is cached.", async () => {
+    const requests: unknown[] = [];
+    verifier = createVerifier({
+      createWorker: () => createInThreadWorker(requests),
+      poolSize: 2,
+    });
+
+    expect(await verifier.verify(event)).toBe(true);
+    expect(await verifier.verify({ ...event, content: "tampered" })).toBe(
+      false
+    );
+    expect(requests).toHaveLength(2);
+
+    expect(await verifier.verify(event)).toBe(true);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("A cached signature isn't reused for an event with a wrong id.", async () => {
+    verifier = createVerifier();
+
+    expect(await verifier.verify(event)).toBe(true);
+    expect(await verifier.verify({ ...event, content: "tampered" })).toBe(
+      false
+    );
+  });
+
+  test("Pending events of a crashed worker are verified on this thread.", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {
+      // Suppress the warning.
+    });
+    const requests: unknown[] = [];
+    const crash: ((reason: unknown) => void)[] = [];
+    verifier = createVerifier({
+      createWorker: () => ({
+        postMessage(message) {
+          requests.push(message);
+        },
+        on(type, listener) {
+          if (type === "error") {
+            crash.push(listener);
+          }
+        },
+        terminate() {
+          // Nothing to release.
+        },
+      }),
+      poolSize: 1,
+    });
+
+    const result = verifier.verify(event);
+    crash[0](new Error("crashed"));
+    expect(await result).toBe(true);
+
+    // The crashed worker is no longer used.
+    expect(await verifier.verify({ ...event, content: "tampered" })).toBe(
+      false
+    );
+    expect(requests).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  test("Events are verified on this thread if a worker doesn't answer.", async () => {
+    verifier = createVerifier({
+      createWorker: () => ({
+        postMessage() {
+          // Never answer.
+        },
+        on() {
+          // Never emit anything.
+        },
+        terminate() {
+          // Nothing to release.
+        },
+      }),
+      timeout: 100,
+    });
+
+    expect(await verifier.verify(event)).toBe(true);
+  });
+
+  test("Events are verified on this thread if workers are unavailable.", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {
+      // Suppress the warning.
+    });
+    verifier = createVerifier({
+      createWorker: () => {
+        throw new Error("Worker is not defined");
+      },
+    });
+
+    expect(await verifier.verify(event)).toBe(true);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("verifier option", () => {
+  const RELAY_URL = "ws://localhost:1234";
+  let rxNostr: RxNostr;
+  let relay: WS;
+
+  beforeEach(async () => {
+    relay = new WS(RELAY_URL, { jsonProtocol: true });
+
+    rxNostr = createRxNostr({ verifier: createVerifier() });
+    rxNostr.setRelays([RELAY_URL]);
+    await relay.connected;
+  });
+
+  afterEach(() => {
+    rxNostr.dispose();
+    WS.clean();
+  });
+
+  test("Events with an invalid signature are dropped from use().", async () => {
+    const valid = await signer.signEvent({ kind: 1, content: "valid" });
+    const req = createRxForwardReq("sub");
+    const ids: string[] = [];
+    rxNostr.use(req).subscribe(({ event }) => ids.push(event.id));
+
+    req.emit([{ kinds: [1] }]);
+    await expect(relay).toReceiveMessage(["REQ", "sub:0", { kinds: [1] }]);
+
+    relay.send(["EVENT", "sub:0", fakeEvent({ id: "invalid", kind: 1 })]);
+    relay.send(["EVENT", "sub:0", valid]);
+    await sleep(10);
+
+    expect(ids).toEqual([valid.id]);
+  });
+});
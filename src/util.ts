@@ -34,3 +34,35 @@ export function onSubscribe<T>(
     subscribe: callback,
   });
 }
+
+/**
+ * A Map which holds at most `capacity` entries.
+ * The least recently used entry is evicted first.
+ */
+export class LruCache<K, V> {
+  private entries: Map<K, V> = new Map();
+
+  constructor(private capacity: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move it to the end as the most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+  }
+}
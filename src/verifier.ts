@@ -0,0 +1,251 @@
+import { getEventHash, verify as _verify } from "./nostr/event.js";
+import { Nostr } from "./nostr/primitive.js";
+import { defineDefaultOptions, LruCache } from "./util.js";
+
+/**
+ * An object that verifies signatures of events.
+ * RxNostr uses it to verify events issued by `use()` if `verifier` option is given.
+ */
+export interface EventVerifier {
+  verify(event: Nostr.Event): Promise<boolean>;
+  /** Release resources such as workers. */
+  dispose?(): void;
+}
+
+/**
+ * The minimal interface shared by Web Worker, `worker_threads`' Worker
+ * and ports on the worker side (`self` and `parentPort`).
+ * `"error"` and `"exit"` are listened only on workers.
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown): void;
+  on?(
+    type: "message" | "error" | "exit",
+    listener: (data: unknown) => void
+  ): void;
+  addEventListener?(
+    type: "message" | "error",
+    listener: (ev: { data: unknown }) => void
+  ): void;
+}
+
+export interface VerifierWorker extends MessagePortLike {
+  terminate(): void;
+}
+
+export interface VerifierOptions {
+  /**
+   * Create a worker whose script calls `startVerifierWorker()`.
+   * If omitted, or if it throws because workers are unavailable,
+   * events are verified on the current thread.
+   */
+  createWorker?: () => VerifierWorker;
+  /** The number of workers. */
+  poolSize: number;
+  /** The number of verified events to remember not to verify them again. */
+  cacheSize: number;
+  /**
+   * The time in milliseconds to wait for a worker's response.
+   * After that, the event is verified on the current thread.
+   */
+  timeout: number;
+}
+const makeVerifierOptions = defineDefaultOptions({
+  createWorker: undefined as (() => VerifierWorker) | undefined,
+  poolSize: 4,
+  cacheSize: 10000,
+  timeout: 10000,
+});
+
+interface VerifyRequest {
+  id: number;
+  event: Nostr.Event;
+}
+
+interface VerifyResponse {
+  id: number;
+  ok: boolean;
+}
+
+/**
+ * Create a verifier which distributes verification to a pool of workers
+ * and remembers recently verified events.
+ * Workers are created on the first verification.
+ */
+export function createVerifier(
+  options?: Partial<VerifierOptions>
+): EventVerifier {
+  return new PooledVerifier(makeVerifierOptions(options));
+}
+
+/**
+ * Serve verification requests from `createVerifier()`.
+ * Call it in the worker script with `self` (Web Worker) or `parentPort` (`worker_threads`).
+ */
+export function startVerifierWorker(port: MessagePortLike) {
+  listenMessage(port, (data) => {
+    const { id, event } = data as VerifyRequest;
+    const response: VerifyResponse = { id, ok: _verify(event) };
+    port.postMessage(response);
+  });
+}
+
+interface PendingRequest {
+  event: Nostr.Event;
+  pooled: PooledWorker;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (ok: boolean) => void;
+}
+
+interface PooledWorker {
+  worker: VerifierWorker;
+  pending: number;
+}
+
+class PooledVerifier implements EventVerifier {
+  /** Ids of verified events and their signatures. */
+  private verified: LruCache<string, string>;
+  private workers: PooledWorker[] | null = null;
+  private requests: Map<number, PendingRequest> = new Map();
+  private requestCount = 0;
+
+  constructor(private options: VerifierOptions) {
+    this.verified = new LruCache(options.cacheSize);
+  }
+
+  async verify(event: Nostr.Event): Promise<boolean> {
+    // The id is trustworthy only if it's the hash of the event.
+    const isIdValid = getEventHash(event) === event.id;
+    if (isIdValid && this.verified.get(event.id) === event.sig) {
+      return true;
+    }
+
+    const ok = await this.request(event);
+    if (ok && isIdValid) {
+      this.verified.set(event.id, event.sig);
+    }
+    return ok;
+  }
+
+  /** Terminate workers. Verification continues on the current thread. */
+  dispose() {
+    for (const { worker } of this.workers ?? []) {
+      worker.terminate();
+    }
+    this.workers = [];
+
+    for (const [id, { event }] of this.requests) {
+      this.settle(id, _verify(event));
+    }
+  }
+
+  private request(event: Nostr.Event): Promise<boolean> {
+    this.workers ??= this.spawnWorkers();
+
+    const pooled = this.workers.reduce<PooledWorker | null>(
+      (min, e) => (min && min.pending <= e.pending ? min : e),
+      null
+    );
+    if (!pooled) {
+      return Promise.resolve(_verify(event));
+    }
+
+    const id = this.requestCount++;
+    pooled.pending++;
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(id, _verify(event));
+      }, this.options.timeout);
+      this.requests.set(id, { event, pooled, timer, resolve });
+      const request: VerifyRequest = { id, event };
+      pooled.worker.postMessage(request);
+    });
+  }
+
+  private settle(id: number, ok: boolean) {
+    const request = this.requests.get(id);
+    if (!request) {
+      return;
+    }
+
+    this.requests.delete(id);
+    clearTimeout(request.timer);
+    request.pooled.pending--;
+    request.resolve(ok);
+  }
+
+  private spawnWorkers(): PooledWorker[] {
+    const { createWorker, poolSize } = this.options;
+    if (!createWorker) {
+      return [];
+    }
+
+    const workers: PooledWorker[] = [];
+    try {
+      for (let i = 0; i < poolSize; i++) {
+        const worker = createWorker();
+        const pooled: PooledWorker = { worker, pending: 0 };
+        listenMessage(worker, (data) => {
+          this.handleResponse(data as VerifyResponse);
+        });
+        listenFailure(worker, (reason) => {
+          this.handleFailure(pooled, reason);
+        });
+        workers.push(pooled);
+      }
+    } catch (err) {
+      console.warn("Workers are unavailable, so verify on this thread:", err);
+      for (const { worker } of workers) {
+        worker.terminate();
+      }
+      return [];
+    }
+
+    return workers;
+  }
+
+  private handleResponse({ id, ok }: VerifyResponse) {
+    this.settle(id, ok);
+  }
+
+  /** Remove the crashed worker and verify its pending events on the current thread. */
+  private handleFailure(pooled: PooledWorker, reason: unknown) {
+    if (!this.workers?.includes(pooled)) {
+      return;
+    }
+
+    console.warn("A verifier worker has stopped:", reason);
+    this.workers = this.workers.filter((e) => e !== pooled);
+    pooled.worker.terminate();
+
+    for (const [id, request] of this.requests) {
+      if (request.pooled === pooled) {
+        this.settle(id, _verify(request.event));
+      }
+    }
+  }
+}
+
+function listenMessage(
+  port: MessagePortLike,
+  callback: (data: unknown) => void
+) {
+  if (port.on) {
+    port.on("message", callback);
+  } else {
+    port.addEventListener?.("message", ({ data }) => callback(data));
+  }
+}
+
+function listenFailure(
+  worker: VerifierWorker,
+  callback: (reason: unknown) => void
+) {
+  if (worker.on) {
+    worker.on("error", callback);
+    worker.on("exit", callback);
+  } else {
+    worker.addEventListener?.("error", callback);
+  }
+}
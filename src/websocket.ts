@@ -1,16 +1,105 @@
 import { Subject } from "rxjs";
 
 import { Nostr } from "./nostr/primitive.js";
+import {
+  InvalidMessageError,
+  validateIncomingMessage,
+} from "./nostr/validation.js";
 import { ConnectionState, MessagePacket } from "./packet.js";
 
+/**
+ * How to reconnect when a websocket connection is lost unexpectedly.
+ *
+ * - `"exponential"`: Wait for `initialDelay * 2^n` (but at most `maxDelay`) milliseconds
+ *   plus random `jitter` milliseconds at most before the n-th retry.
+ * - `"immediately"`: Retry without waiting.
+ * - `"off"`: Never retry.
+ */
+export type BackoffConfig =
+  | {
+      strategy: "exponential";
+      initialDelay: number;
+      maxDelay?: number;
+      maxCount: number;
+      jitter?: number;
+    }
+  | {
+      strategy: "immediately";
+      maxCount: number;
+    }
+  | {
+      strategy: "off";
+    };
+
+/**
+ * The minimal interface of sockets used by rx-nostr,
+ * which both the global `WebSocket` and `WebSocket` of the `ws` package satisfy.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: SocketEventHandler<unknown>;
+  onmessage: SocketEventHandler<{ data: unknown }>;
+  onclose: SocketEventHandler<unknown>;
+  onerror: SocketEventHandler<unknown>;
+}
+
+/**
+ * Declared as a method so that its parameter is checked bivariantly,
+ * which lets handlers of various event types be assigned.
+ */
+type SocketEventHandler<E> = { handle(ev: E): void }["handle"] | null;
+
+/**
+ * A constructor of objects compatible with WebSocket,
+ * such as `WebSocket` of the `ws` package or an in-memory fake for testing.
+ */
+export interface WebSocketConstructor {
+  new (url: string): WebSocketLike;
+}
+
+export interface WebsocketSubjectConfig {
+  /** A number is the maximum count of retries with the default exponential backoff. */
+  retry: BackoffConfig | number;
+  /** If omitted, the global `WebSocket` is used. */
+  websocketCtor?: WebSocketConstructor;
+  /**
+   * If true, messages are validated strictly.
+   * Otherwise, only frames which are not JSON arrays starting with a string are regarded as invalid.
+   * Invalid messages are reported by `getErrorObservable()` and dropped.
+   */
+  strict?: boolean;
+  /**
+   * If specified, the connection is closed when it receives this number of invalid messages,
+   * and the state becomes `"error"` without retry.
+   */
+  maxInvalidMessages?: number;
+}
+
+/** Returned by `parseMessage()` for frames which are reported as invalid. */
+const INVALID_MESSAGE = Symbol("INVALID_MESSAGE");
+
+// Values of `WebSocket.readyState`.
+// They are defined here because the global `WebSocket` may be unavailable.
+const CONNECTING = 0;
+const OPEN = 1;
+
 export class WebsocketSubject {
-  private socket: WebSocket | null = null;
+  private socket: WebSocketLike | null = null;
   private message$ = new Subject<MessagePacket>();
+  private error$ = new Subject<unknown>();
   private connectionState$ = new Subject<ConnectionState>();
+  private disconnection$ = new Subject<void>();
   private connectionState: ConnectionState = "not-started";
   private buffer: Nostr.OutgoingMessage.Any[] = [];
+  private stopped = false;
+  private retryCount = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The number of invalid messages received in the current connection. */
+  private invalidMessageCount = 0;
 
-  constructor(public url: string) {
+  constructor(public url: string, private config: WebsocketSubjectConfig) {
     this.connectionState$.next("not-started");
   }
 
@@ -20,13 +109,24 @@ export class WebsocketSubject {
   }
 
   start() {
+    this.stopped = false;
     if (
-      this.socket?.readyState === WebSocket.OPEN ||
-      this.socket?.readyState === WebSocket.CONNECTING
+      this.socket?.readyState === OPEN ||
+      this.socket?.readyState === CONNECTING ||
+      // Reconnection is already scheduled.
+      this.retryTimer !== null
     ) {
       return Promise.resolve();
     }
 
+    if (this.connectionState === "error") {
+      this.retryCount = 0;
+    }
+
+    return this.connect();
+  }
+
+  private connect() {
     if (this.connectionState === "not-started") {
       this.setConnectionState("starting");
     } else if (this.connectionState === "error") {
@@ -40,8 +140,10 @@ export class WebsocketSubject {
       resolve = _resolve;
     });
 
-    const websocket = new WebSocket(this.url);
+    const websocket = this.createSocket();
     websocket.onopen = () => {
+      this.retryCount = 0;
+      this.invalidMessageCount = 0;
       this.setConnectionState("ongoing");
       resolve();
       for (const msg of this.buffer) {
@@ -49,20 +151,30 @@ export class WebsocketSubject {
       }
       this.buffer = [];
     };
-    websocket.onerror = () => {
-      this.setConnectionState("error");
-      this.message$.error(new Error("websocket error"));
-      this.socket = null;
-    };
     websocket.onmessage = ({ data }) => {
-      try {
-        this.message$.next({ from: this.url, message: JSON.parse(data) });
-      } catch (err) {
-        this.message$.error(err);
+      const message = this.parseMessage(String(data));
+      if (message !== INVALID_MESSAGE) {
+        this.message$.next({ from: this.url, message });
+      } else {
+        this.handleInvalidMessage();
       }
     };
+    // An error on the socket is followed by close, so both of them are handled in `onclose`.
+    // Still, a listener is required because `ws` throws errors without listeners.
+    websocket.onerror = ignoreSocketError;
     websocket.onclose = () => {
+      // The socket has been closed by `stop()` or replaced by another one.
+      if (this.socket !== websocket) {
+        return;
+      }
+
       this.socket = null;
+      this.disconnection$.next();
+
+      // `stop()` may be called by an observer of `disconnection$`.
+      if (!this.stopped) {
+        this.retry();
+      }
     };
 
     this.socket = websocket;
@@ -70,48 +182,168 @@ export class WebsocketSubject {
     return resolveOnOpen;
   }
 
+  /**
+   * Parse the frame, or report it and return `INVALID_MESSAGE` if it's invalid.
+   */
+  private parseMessage(
+    data: string
+  ): Nostr.IncomingMessage.Any | typeof INVALID_MESSAGE {
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.error$.next(
+        new InvalidMessageError("invalid-json", data, "The frame is not JSON.")
+      );
+      return INVALID_MESSAGE;
+    }
+
+    if (!this.config.strict) {
+      if (!Array.isArray(message) || typeof message[0] !== "string") {
+        this.error$.next(
+          new InvalidMessageError(
+            "invalid-message",
+            message,
+            "The message is not an array starting with its type."
+          )
+        );
+        return INVALID_MESSAGE;
+      }
+      return message as Nostr.IncomingMessage.Any;
+    }
+    try {
+      return validateIncomingMessage(message);
+    } catch (err) {
+      this.error$.next(err);
+      return INVALID_MESSAGE;
+    }
+  }
+
+  /**
+   * Disconnect the relay regarded as misbehaving
+   * if it has sent too many invalid messages.
+   */
+  private handleInvalidMessage() {
+    const { maxInvalidMessages } = this.config;
+    this.invalidMessageCount++;
+    if (
+      maxInvalidMessages === undefined ||
+      this.invalidMessageCount < maxInvalidMessages
+    ) {
+      return;
+    }
+
+    this.stopped = true;
+    this.cancelRetry();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+
+    this.error$.next(
+      new Error(
+        `Disconnected because of ${this.invalidMessageCount} invalid messages.`
+      )
+    );
+    this.disconnection$.next();
+    this.setConnectionState("error");
+  }
+
+  private createSocket(): WebSocketLike {
+    const WebSocketCtor = this.config.websocketCtor ?? WebSocket;
+    return new WebSocketCtor(this.url);
+  }
+
+  private retry() {
+    const delay = getRetryDelay(this.config.retry, this.retryCount);
+    if (delay === null) {
+      this.setConnectionState("error");
+      return;
+    }
+
+    this.retryCount++;
+    this.setConnectionState("reconnecting");
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
   stop() {
-    this.socket?.close();
+    this.stopped = true;
+    if (this.retryTimer !== null) {
+      this.cancelRetry();
+      // Closed as idling, not as an error.
+      this.setConnectionState("ongoing");
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
   }
 
   getState() {
     return this.connectionState;
   }
 
+  isOpen() {
+    return this.socket?.readyState === OPEN;
+  }
+
   getMessageObservable() {
     return this.message$.asObservable();
   }
 
+  /** Get an Observable of errors which don't terminate the message stream. */
+  getErrorObservable() {
+    return this.error$.asObservable();
+  }
+
   getConnectionStateObservable() {
     return this.connectionState$.asObservable();
   }
 
+  /**
+   * Get an Observable that notifies when the socket is closed without `stop()`,
+   * including the case that the connection fails.
+   */
+  getDisconnectionObservable() {
+    return this.disconnection$.asObservable();
+  }
+
   send(message: Nostr.OutgoingMessage.Any) {
-    if (this.socket?.readyState === WebSocket.OPEN) {
+    if (this.socket?.readyState === OPEN) {
       this.socket.send(JSON.stringify(message));
-    } else if (this.socket?.readyState === WebSocket.CONNECTING) {
+    } else if (
+      this.socket?.readyState === CONNECTING ||
+      this.retryTimer !== null
+    ) {
       this.buffer.push(message);
-    } else {
-      const socket = new WebSocket(this.url);
+    } else if (message[0] === "EVENT") {
+      // Other messages are meaningless for a temporary connection.
+      const socket = this.createSocket();
+      socket.onerror = ignoreSocketError;
       socket.onopen = () => {
         socket.send(JSON.stringify(message));
       };
       socket.onmessage = ({ data }) => {
-        try {
-          const response: Nostr.IncomingMessage.Any = JSON.parse(data);
-          if (response[0] === "OK") {
-            socket.close();
-          }
-          this.message$.next({ from: this.url, message: response });
-        } catch (err) {
-          this.message$.error(err);
+        const response = this.parseMessage(String(data));
+        if (response === INVALID_MESSAGE) {
+          return;
         }
+        if (response[0] === "OK") {
+          socket.close();
+        }
+        this.message$.next({ from: this.url, message: response });
       };
       setTimeout(() => {
-        if (
-          socket.readyState === WebSocket.OPEN ||
-          socket.readyState === WebSocket.CONNECTING
-        ) {
+        if (socket.readyState === OPEN || socket.readyState === CONNECTING) {
           socket.close();
         }
       }, 10 * 1000);
@@ -119,17 +351,66 @@ export class WebsocketSubject {
   }
 
   dispose() {
-    if (
-      this.socket?.readyState === WebSocket.OPEN ||
-      this.socket?.readyState === WebSocket.CONNECTING
-    ) {
-      this.socket?.close();
+    this.stopped = true;
+    this.cancelRetry();
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket?.readyState === OPEN || socket?.readyState === CONNECTING) {
+      socket.close();
     }
 
     this.message$.complete();
     this.message$.unsubscribe();
+    this.error$.complete();
+    this.error$.unsubscribe();
     this.setConnectionState("terminated");
     this.connectionState$.complete();
     this.connectionState$.unsubscribe();
+    this.disconnection$.complete();
+    this.disconnection$.unsubscribe();
+  }
+}
+
+/** The backoff used when `retry` is given as the maximum count. */
+const defaultBackoffConfig = {
+  strategy: "exponential",
+  initialDelay: 1000,
+  maxDelay: 60 * 1000,
+  jitter: 1000,
+} as const;
+
+function ignoreSocketError() {
+  // Handled by `onclose`.
+}
+
+function getRetryDelay(
+  retry: BackoffConfig | number,
+  count: number
+): number | null {
+  const config: BackoffConfig =
+    typeof retry === "number"
+      ? { ...defaultBackoffConfig, maxCount: retry }
+      : retry;
+
+  switch (config.strategy) {
+    case "exponential": {
+      if (count >= config.maxCount) {
+        return null;
+      }
+      const delay = Math.min(
+        config.initialDelay * 2 ** count,
+        config.maxDelay ?? Infinity
+      );
+      const jitter = Math.floor(Math.random() * (config.jitter ?? 0));
+      return delay + jitter;
+    }
+    case "immediately":
+      return count < config.maxCount ? 0 : null;
+    case "off":
+      return null;
+    default:
+      // Never retry following an unknown config, rather than looping without delay.
+      return null;
   }
 }